@@ -0,0 +1,145 @@
+/**
+ * AI Export
+ * Turns a document into compact text for pasting into a model, with optional filters for content a model does not need
+ */
+
+import { FormatOptions, compactFormat } from './markdownFormatter';
+import { MarkdownBlock, collectVerbatimLines, parseMarkdownBlocks, splitLines } from './markdownBlocks';
+import { LinkSpan, findLinks, inlineReferenceLinks } from './linkReferences';
+
+/**
+ * Filters applied before the compact layout; filters that are not set keep the content
+ */
+export interface AIExportFilters {
+    /** Remove `<!-- ... -->` comments, including mode directives */
+    stripHtmlComments?: boolean;
+    /** Remove status badge images, along with the links around them */
+    stripBadges?: boolean;
+    /** Replace images with their alt text */
+    imagesToAltText?: boolean;
+    /** Replace links with their text */
+    stripLinkUrls?: boolean;
+    /** Remove `[[toc]]` and `[TOC]` lines used by the preview */
+    stripTocMarker?: boolean;
+}
+
+interface SpanEdit {
+    line: number;
+    start: number;
+    end: number;
+    text: string;
+}
+
+const BADGE_HOST_REGEX = /^https?:\/\/(img\.shields\.io|shields\.io|badgen\.net|badge\.fury\.io|codecov\.io|coveralls\.io|travis-ci\.(org|com)|circleci\.com|app\.netlify\.com|readthedocs\.org|snyk\.io)\//i;
+const BADGE_PATH_REGEX = /\/badges?(\.svg|\/|\?|$)|\/badge\.svg/i;
+const TOC_MARKER_REGEX = /^ {0,3}\[\[?toc\]\]?[ \t]*$/i;
+const COMMENT_BLOCK_REGEX = /^\s*(<!--[\s\S]*?-->\s*)+$/;
+// Code spans are matched first so comments inside them are left alone
+const INLINE_COMMENT_REGEX = /(`+)(?:(?!\1)[\s\S])*?\1(?!`)|[ \t]*<!--.*?-->/g;
+
+/**
+ * Applies the filters and converts the result to compact mode. The source is not
+ * changed; code blocks and front matter are never filtered.
+ */
+export function exportForAI(markdown: string, filters: AIExportFilters, options: FormatOptions = {}): string {
+    let text = markdown;
+
+    if (filters.stripHtmlComments) {
+        text = stripHtmlComments(text);
+    }
+    if (filters.stripTocMarker) {
+        text = removeLines(text, line => TOC_MARKER_REGEX.test(line));
+    }
+    if (filters.stripBadges) {
+        text = replaceLinks(text, (link, links) => isBadgeLink(link, links) || (link.isImage && isBadge(link.destination)) ? '' : null);
+    }
+    if (filters.imagesToAltText) {
+        text = replaceLinks(text, link => link.isImage ? link.text : null);
+    }
+    if (filters.stripLinkUrls) {
+        // Definitions that no link refers to any more are dropped with the unused ones
+        text = inlineReferenceLinks(replaceLinks(text, link => link.isImage ? null : link.text));
+    }
+
+    return compactFormat(text, options);
+}
+
+/**
+ * Whether an image URL points to a status badge service
+ */
+export function isBadge(url: string): boolean {
+    return BADGE_HOST_REGEX.test(url) || (/^https?:/i.test(url) && BADGE_PATH_REGEX.test(url));
+}
+
+function isBadgeLink(link: LinkSpan, links: LinkSpan[]): boolean {
+    if (link.isImage) {
+        return false;
+    }
+    const inner = links.filter(other => other.isImage && other.line === link.line && other.start > link.start && other.end < link.end);
+    return inner.length > 0 && inner.every(image => isBadge(image.destination)) && removeSpans(link.text, inner.map(image => [image.start - link.start - 1, image.end - link.start - 1])).trim() === '';
+}
+
+function stripHtmlComments(markdown: string): string {
+    const blocks = parseMarkdownBlocks(markdown);
+    const verbatim = collectVerbatimLines(blocks);
+    const commentLines = new Set<number>();
+
+    const visit = (block: MarkdownBlock) => {
+        if (block.kind === 'html' && block.token && COMMENT_BLOCK_REGEX.test(block.token.content)) {
+            for (let line = block.startLine; line < block.endLine; line++) {
+                commentLines.add(line);
+            }
+        }
+        block.children.forEach(visit);
+    };
+    blocks.forEach(visit);
+
+    return joinLines(splitLines(markdown).flatMap((line, index) => {
+        if (commentLines.has(index)) {
+            return [];
+        }
+        if (verbatim.has(index)) {
+            return [line];
+        }
+        return [line.replace(INLINE_COMMENT_REGEX, match => match.startsWith('`') ? match : '')];
+    }), markdown);
+}
+
+function removeLines(markdown: string, shouldRemove: (line: string) => boolean): string {
+    const verbatim = collectVerbatimLines(parseMarkdownBlocks(markdown));
+    return joinLines(splitLines(markdown).filter((line, index) => verbatim.has(index) || !shouldRemove(line)), markdown);
+}
+
+/**
+ * Replaces links and images with the text the callback returns (null keeps the
+ * link). Links inside a replaced link are left to the replacement, and lines
+ * left empty, such as a row of badges, are removed.
+ */
+function replaceLinks(markdown: string, replace: (link: LinkSpan, links: LinkSpan[]) => string | null): string {
+    const links = findLinks(markdown);
+    const edits: SpanEdit[] = [];
+
+    for (const link of links) {
+        const covered = edits.some(edit => edit.line === link.line && link.start < edit.end);
+        const text = covered ? null : replace(link, links);
+        if (text !== null) {
+            edits.push({ line: link.line, start: link.start, end: link.end, text });
+        }
+    }
+
+    const lines = splitLines(markdown);
+    for (const edit of [...edits].reverse()) {
+        const line = lines[edit.line];
+        lines[edit.line] = line.substring(0, edit.start) + edit.text + line.substring(edit.end);
+    }
+    const emptied = new Set(edits.map(edit => edit.line).filter(line => lines[line].trim() === ''));
+    return joinLines(lines.filter((_, index) => !emptied.has(index)), markdown);
+}
+
+function removeSpans(text: string, spans: [number, number][]): string {
+    return [...spans].reverse().reduce((result, [start, end]) => result.substring(0, start) + result.substring(end), text);
+}
+
+function joinLines(lines: string[], original: string): string {
+    return lines.join(original.includes('\r\n') ? '\r\n' : '\n');
+}
@@ -0,0 +1,283 @@
+/**
+ * Bulk Conversion
+ * Converts every markdown file matching a glob to one mode, with a per-file preview report
+ */
+
+import * as vscode from 'vscode';
+import { FormatOptions, FormatProfile, formatMarkdown } from './markdownFormatter';
+import { findSemanticDifferences } from './markdownEquivalence';
+import { countTokens } from './tokenCounter';
+import { diffLines } from './textDiff';
+import { ModeManager } from './modeManager';
+import { setModeDirective } from './modeDirective';
+
+const PREVIEW_SCHEME = 'markdown-angel-bulk-preview';
+const EXCLUDE_GLOB = '**/node_modules/**';
+const MARKDOWN_FILE_REGEX = /\.(md|markdown)$/i;
+
+interface FileConversion {
+    document: vscode.TextDocument;
+    relativePath: string;
+    /** Document version the text was formatted from */
+    version: number;
+    formattedText: string;
+    lineDelta: number;
+    byteDelta: number;
+    tokenDelta: number;
+    differenceCount: number;
+}
+
+interface ConversionItem extends vscode.QuickPickItem {
+    conversion: FileConversion;
+}
+
+/**
+ * Serves the formatted text of pending conversions to the diff editor
+ */
+class ConversionPreviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private previews: Map<string, string> = new Map();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.changeEmitter.event;
+
+    public setPreviews(conversions: FileConversion[]): void {
+        const previous = [...this.previews.keys()];
+        this.previews.clear();
+        for (const conversion of conversions) {
+            this.previews.set(conversion.document.uri.toString(), conversion.formattedText);
+        }
+
+        // Previews left open from an earlier run show the new result, or nothing
+        for (const uri of new Set([...previous, ...this.previews.keys()])) {
+            this.changeEmitter.fire(this.getPreviewUri(vscode.Uri.parse(uri)));
+        }
+    }
+
+    public getPreviewUri(uri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: uri.path, query: uri.toString() });
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.previews.get(uri.query) ?? '';
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
+
+/**
+ * Ask for a glob and target mode, report the changes, then apply the selected files as one undoable edit
+ */
+async function convertWorkspace(modeManager: ModeManager, previewProvider: ConversionPreviewProvider): Promise<void> {
+    const pattern = await vscode.window.showInputBox({
+        prompt: 'Glob of markdown files to convert',
+        placeHolder: 'docs/**/*.md',
+        value: '**/*.md'
+    });
+    if (!pattern) {
+        return;
+    }
+
+    const profileItem = await vscode.window.showQuickPick(
+        modeManager.getProfiles().map(profile => ({ label: profile.name, description: profile.description, profile })),
+        { placeHolder: 'Convert matching files to mode' }
+    );
+    if (!profileItem) {
+        return;
+    }
+
+    // A broad glob such as `**/*` must not run the markdown formatter over other files
+    const uris = (await vscode.workspace.findFiles(pattern, EXCLUDE_GLOB)).filter(uri => MARKDOWN_FILE_REGEX.test(uri.path));
+    if (uris.length === 0) {
+        vscode.window.showInformationMessage(`No markdown files match ${pattern}`);
+        return;
+    }
+
+    const conversions = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Formatting ${uris.length} file(s) in ${profileItem.profile.name} mode...`,
+        cancellable: true
+    }, (progress, token) => prepareConversions(uris, profileItem.profile, modeManager.getFormatOptions(), progress, token));
+    if (!conversions) {
+        return;
+    }
+
+    const changed = conversions.filter(conversion => conversion.formattedText !== conversion.document.getText());
+    const unchanged = conversions.filter(conversion => !changed.includes(conversion)).map(conversion => conversion.document.uri);
+
+    if (changed.length === 0) {
+        await modeManager.setModeForUris(unchanged, profileItem.profile.name);
+        vscode.window.showInformationMessage(`All ${conversions.length} file(s) are already in ${profileItem.profile.name} mode`);
+        return;
+    }
+
+    previewProvider.setPreviews(changed);
+    const picked = await showConversionReport(changed, profileItem.profile, previewProvider);
+    if (!picked || picked.length === 0) {
+        return;
+    }
+
+    // Applying a file edited while the report was open would revert those edits
+    const selected = picked.filter(conversion => conversion.document.version === conversion.version);
+    const edited = picked.filter(conversion => !selected.includes(conversion));
+    if (edited.length > 0) {
+        vscode.window.showWarningMessage(
+            `Skipped ${edited.length} file(s) edited during the conversion: ${edited.map(conversion => conversion.relativePath).join(', ')}. Run the conversion again to include them.`
+        );
+    }
+    if (selected.length === 0) {
+        return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const conversion of selected) {
+        const document = conversion.document;
+        for (const hunk of diffLines(document.getText(), conversion.formattedText)) {
+            edit.replace(
+                document.uri,
+                new vscode.Range(document.positionAt(hunk.oldStart), document.positionAt(hunk.oldEnd)),
+                hunk.newText
+            );
+        }
+    }
+
+    // The files are left unsaved, so the conversion can be reviewed and undone before it reaches the disk
+    if (!await vscode.workspace.applyEdit(edit)) {
+        vscode.window.showErrorMessage('Failed to apply formatting');
+        return;
+    }
+
+    await modeManager.setModeForUris(
+        [...selected.map(conversion => conversion.document.uri), ...unchanged],
+        profileItem.profile.name
+    );
+    vscode.window.showInformationMessage(
+        `Converted ${selected.length} file(s) to ${modeManager.getModeLabel(profileItem.profile.name)} mode; save them to keep the changes`
+    );
+}
+
+async function prepareConversions(
+    uris: vscode.Uri[],
+    profile: FormatProfile,
+    options: FormatOptions,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+): Promise<FileConversion[] | undefined> {
+    const conversions: FileConversion[] = [];
+
+    for (const uri of uris) {
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const relativePath = vscode.workspace.asRelativePath(uri);
+        progress.report({ message: relativePath, increment: 100 / uris.length });
+
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const originalText = document.getText();
+            const layoutText = formatMarkdown(originalText, profile, options);
+            // An in-file directive would otherwise keep the file in its old mode
+            const formattedText = setModeDirective(layoutText, profile.name);
+
+            conversions.push({
+                document,
+                relativePath,
+                version: document.version,
+                formattedText,
+                lineDelta: formattedText.split('\n').length - originalText.split('\n').length,
+                byteDelta: Buffer.byteLength(formattedText, 'utf8') - Buffer.byteLength(originalText, 'utf8'),
+                tokenDelta: countTokens(formattedText) - countTokens(originalText),
+                differenceCount: layoutText === originalText ? 0 : findSemanticDifferences(originalText, layoutText).length
+            });
+        } catch (error) {
+            console.error(`Error formatting ${relativePath}:`, error);
+        }
+    }
+
+    return conversions;
+}
+
+/**
+ * Lists the files that would change with their deltas. Files whose content would change
+ * start unselected; each item has a button that opens a diff preview.
+ */
+function showConversionReport(
+    conversions: FileConversion[],
+    profile: FormatProfile,
+    previewProvider: ConversionPreviewProvider
+): Promise<FileConversion[] | undefined> {
+    const total = (key: 'lineDelta' | 'byteDelta' | 'tokenDelta') =>
+        conversions.reduce((sum, conversion) => sum + conversion[key], 0);
+
+    const items: ConversionItem[] = conversions.map(conversion => ({
+        label: conversion.relativePath,
+        description: describeDeltas(conversion.lineDelta, conversion.byteDelta, conversion.tokenDelta),
+        detail: conversion.differenceCount > 0
+            ? `$(warning) Would change the content of ${conversion.differenceCount} block(s)`
+            : undefined,
+        buttons: [{ iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Preview changes' }],
+        conversion
+    }));
+
+    const quickPick = vscode.window.createQuickPick<ConversionItem>();
+    quickPick.title = `Convert to ${profile.name} mode — ${describeDeltas(total('lineDelta'), total('byteDelta'), total('tokenDelta'))}`;
+    quickPick.placeholder = 'Select the files to convert and press Enter to apply';
+    quickPick.canSelectMany = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.items = items;
+    quickPick.selectedItems = items.filter(item => item.conversion.differenceCount === 0);
+
+    return new Promise(resolve => {
+        let accepted = false;
+
+        quickPick.onDidTriggerItemButton(event => {
+            const uri = event.item.conversion.document.uri;
+            vscode.commands.executeCommand(
+                'vscode.diff',
+                uri,
+                previewProvider.getPreviewUri(uri),
+                `${event.item.conversion.relativePath} ↔ ${profile.name} mode`,
+                { preview: true, preserveFocus: true }
+            );
+        });
+
+        quickPick.onDidAccept(() => {
+            accepted = true;
+            resolve(quickPick.selectedItems.map(item => item.conversion));
+            quickPick.hide();
+        });
+
+        quickPick.onDidHide(() => {
+            if (!accepted) {
+                resolve(undefined);
+            }
+            quickPick.dispose();
+        });
+
+        quickPick.show();
+    });
+}
+
+function describeDeltas(lineDelta: number, byteDelta: number, tokenDelta: number): string {
+    const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+    return `${signed(lineDelta)} lines · ${signed(byteDelta)} bytes · ${signed(tokenDelta)} tokens`;
+}
+
+/**
+ * Register the workspace conversion command and its diff preview provider
+ */
+export function registerBulkConversionCommands(context: vscode.ExtensionContext, modeManager: ModeManager): void {
+    const previewProvider = new ConversionPreviewProvider();
+
+    context.subscriptions.push(
+        previewProvider,
+        vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, previewProvider),
+        vscode.commands.registerCommand('markdown-angel.convertWorkspace', () => {
+            convertWorkspace(modeManager, previewProvider).catch(error => {
+                console.error('Error converting workspace:', error);
+                vscode.window.showErrorMessage(`Error converting files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            });
+        })
+    );
+}
@@ -0,0 +1,101 @@
+/**
+ * Bundle Command
+ * Command that bundles markdown files chosen in the Explorer, or matching a glob, into one compact context pack
+ */
+
+import * as vscode from 'vscode';
+import { BundleFile, bundleMarkdownFiles } from './contextBundle';
+import { ModeManager } from './modeManager';
+import { countTokens, formatTokenCount } from './tokenCounter';
+
+const EXCLUDE_GLOB = '**/node_modules/**';
+const MARKDOWN_FILE_REGEX = /\.(md|markdown)$/i;
+
+/**
+ * Markdown files of the Explorer selection, with folders expanded, or of a glob asked for when nothing is selected
+ */
+async function findBundleFiles(selection: vscode.Uri[]): Promise<vscode.Uri[] | undefined> {
+    if (selection.length === 0) {
+        const pattern = await vscode.window.showInputBox({
+            prompt: 'Glob of markdown files to bundle',
+            placeHolder: 'docs/**/*.md',
+            value: '**/*.md'
+        });
+        if (!pattern) {
+            return undefined;
+        }
+        // A broad glob such as `**/*` must not bundle images and other files as markdown
+        return (await vscode.workspace.findFiles(pattern, EXCLUDE_GLOB)).filter(uri => MARKDOWN_FILE_REGEX.test(uri.path));
+    }
+
+    const uris = await Promise.all(selection.map(async uri => {
+        const stat = await vscode.workspace.fs.stat(uri);
+        return stat.type & vscode.FileType.Directory
+            ? vscode.workspace.findFiles(new vscode.RelativePattern(uri, '**/*.{md,markdown}'), EXCLUDE_GLOB)
+            : [uri];
+    }));
+    return uris.flat();
+}
+
+async function bundleFiles(modeManager: ModeManager, selection: vscode.Uri[]): Promise<void> {
+    const uris = await findBundleFiles(selection);
+    if (!uris) {
+        return;
+    }
+    if (uris.length === 0) {
+        vscode.window.showInformationMessage('No markdown files to bundle');
+        return;
+    }
+
+    const files: BundleFile[] = await Promise.all(uris.map(async uri => ({
+        path: vscode.workspace.asRelativePath(uri, false),
+        markdown: (await vscode.workspace.openTextDocument(uri)).getText()
+    })));
+    const unique = [...new Map(files.map(file => [file.path, file])).values()]
+        .sort((a, b) => a.path.localeCompare(b.path));
+
+    const bundle = bundleMarkdownFiles(unique, modeManager.getFormatOptions());
+    const summary = `${unique.length} file${unique.length === 1 ? '' : 's'}, ~${formatTokenCount(countTokens(bundle))} tokens`;
+
+    const destination = await vscode.window.showQuickPick(
+        [
+            { label: '$(copy) Copy to Clipboard', target: 'clipboard' },
+            { label: '$(save) Save to File...', target: 'file' }
+        ],
+        { placeHolder: `Bundle of ${summary}` }
+    );
+    if (!destination) {
+        return;
+    }
+
+    if (destination.target === 'clipboard') {
+        await vscode.env.clipboard.writeText(bundle);
+        vscode.window.showInformationMessage(`Copied bundle: ${summary}`);
+        return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, 'bundle.md') : undefined,
+        filters: { markdown: ['md'] },
+        saveLabel: 'Save Bundle'
+    });
+    if (!target) {
+        return;
+    }
+    await vscode.workspace.fs.writeFile(target, Buffer.from(bundle, 'utf8'));
+    vscode.window.showInformationMessage(`Saved bundle to ${vscode.workspace.asRelativePath(target)}: ${summary}`);
+}
+
+export function registerBundleCommand(context: vscode.ExtensionContext, modeManager: ModeManager): void {
+    context.subscriptions.push(
+        // Explorer menus pass the clicked resource and the whole selection
+        vscode.commands.registerCommand('markdown-angel.bundleFiles', (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+            const selection = uris && uris.length > 0 ? uris : uri instanceof vscode.Uri ? [uri] : [];
+            bundleFiles(modeManager, selection).catch(error => {
+                console.error('Error bundling files:', error);
+                vscode.window.showErrorMessage(`Error bundling files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            });
+        })
+    );
+}
@@ -0,0 +1,62 @@
+/**
+ * Chunk Export
+ * Command that writes the active document as heading-aware chunks to a JSONL file for retrieval indexes
+ */
+
+import * as vscode from 'vscode';
+import { chunkMarkdown, formatChunksAsJsonl } from './markdownChunker';
+import { ModeManager } from './modeManager';
+
+interface ChunkSettings {
+    maxTokens?: number;
+    compact?: boolean;
+}
+
+async function exportChunks(modeManager: ModeManager): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showWarningMessage('Please open a markdown file first');
+        return;
+    }
+
+    const settings = vscode.workspace.getConfiguration('markdown-angel').get<ChunkSettings>('chunks', {});
+    const input = await vscode.window.showInputBox({
+        prompt: 'Maximum tokens per chunk',
+        value: String(settings.maxTokens ?? 512),
+        validateInput: value => /^[1-9]\d*$/.test(value.trim()) ? undefined : 'Enter a positive whole number of tokens'
+    });
+    if (!input) {
+        return;
+    }
+
+    const document = editor.document;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: document.isUntitled ? undefined : document.uri.with({ path: document.uri.path.replace(/\.[^./]*$/, '') + '.chunks.jsonl' }),
+        filters: { jsonl: ['jsonl'] },
+        saveLabel: 'Export Chunks'
+    });
+    if (!target) {
+        return;
+    }
+
+    const chunks = chunkMarkdown(document.getText(), {
+        maxTokens: Number(input.trim()),
+        compact: settings.compact ?? false,
+        format: modeManager.getFormatOptions()
+    });
+    const jsonl = formatChunksAsJsonl(chunks, vscode.workspace.asRelativePath(document.uri));
+    await vscode.workspace.fs.writeFile(target, Buffer.from(jsonl, 'utf8'));
+
+    vscode.window.showInformationMessage(`Exported ${chunks.length} chunk${chunks.length === 1 ? '' : 's'} to ${vscode.workspace.asRelativePath(target)}`);
+}
+
+export function registerChunkExportCommand(context: vscode.ExtensionContext, modeManager: ModeManager): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdown-angel.exportChunks', () => {
+            exportChunks(modeManager).catch(error => {
+                console.error('Error exporting chunks:', error);
+                vscode.window.showErrorMessage(`Error exporting chunks: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            });
+        })
+    );
+}
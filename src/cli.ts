@@ -0,0 +1,383 @@
+#!/usr/bin/env node
+/**
+ * Markdown Angel CLI
+ * Applies the extension's compact/human formatting outside the editor, e.g. in pre-commit hooks and CI
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FormatOptions, FormatProfile, MarkdownMode, detectCurrentMode, formatMarkdown } from './markdownFormatter';
+import { describeDifference, findSemanticDifferences } from './markdownEquivalence';
+import { findModeDirective, setModeDirective } from './modeDirective';
+import { FormatSettings, ProfileSetting, buildFormatOptions, buildProfiles } from './settings';
+
+export interface CliIo {
+    readStdin: () => Promise<string>;
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+}
+
+interface CliOptions {
+    command: 'compact' | 'human' | 'detect' | 'check';
+    /** Mode to format or check in; unset for a check that resolves each file's mode */
+    mode?: MarkdownMode;
+    write: boolean;
+    check: boolean;
+    force: boolean;
+    /** Settings file given with --config */
+    config?: string;
+    files: string[];
+}
+
+/**
+ * The extension settings the CLI applies, read from a VS Code settings file
+ */
+interface CliSettings extends FormatSettings {
+    profiles?: ProfileSetting[];
+    defaultModes?: Record<string, string>;
+}
+
+interface CliConfig {
+    profiles: FormatProfile[];
+    formatOptions: FormatOptions;
+    defaultModes: Record<string, string>;
+    /** Directory that `defaultModes` globs are relative to */
+    root: string;
+}
+
+const STDIN_FILE = '-';
+const DEFAULT_CONFIG_FILE = path.join('.vscode', 'settings.json');
+const SETTINGS_PREFIX = 'markdown-angel.';
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+const SKIPPED_DIRECTORIES = ['node_modules', '.git'];
+
+const USAGE = `Usage: markdown-angel <command> [options] [files...]
+
+Commands:
+  compact            Format files in compact (AI-optimized) mode
+  human              Format files in human-readable mode
+  detect             Print the detected mode of each file
+  check              Exit non-zero if files are not in their mode
+
+Options:
+  -w, --write        Write formatted output back to the files
+  -c, --check        Do not write; exit non-zero if any file would change
+  --mode <mode>      Mode for the check command: compact, human or a profile
+  --config <file>    VS Code settings file to read markdown-angel settings from
+                     (default: .vscode/settings.json if present)
+  --force            Write even if formatting would change the rendered content
+  -h, --help         Show this help
+
+Files may be directories (searched for .md files). Without files, or with '-',
+input is read from stdin and written to stdout.
+
+Without --mode, check uses the mode each file's <!-- markdown-angel: <mode> -->
+comment names, else the first matching markdown-angel.defaultModes glob, else
+compact. Profiles, style, wrapColumn and link settings apply as in the editor.`;
+
+const processIo: CliIo = {
+    readStdin: () => new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        process.stdin.on('data', chunk => chunks.push(Buffer.from(chunk)));
+        process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        process.stdin.on('error', reject);
+    }),
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text)
+};
+
+/**
+ * Runs the CLI and returns the process exit code: 0 on success, 1 when a check
+ * fails or a file could not be formatted safely, 2 on usage errors
+ */
+export async function runCli(args: string[], io: CliIo = processIo): Promise<number> {
+    if (args.includes('-h') || args.includes('--help')) {
+        io.stdout(`${USAGE}\n`);
+        return 0;
+    }
+
+    let options: CliOptions;
+    try {
+        options = parseArgs(args);
+    } catch (error) {
+        io.stderr(`${error instanceof Error ? error.message : error}\n\n${USAGE}\n`);
+        return 2;
+    }
+
+    let config: CliConfig;
+    try {
+        config = loadConfig(options.config, message => io.stderr(`${message}\n`));
+    } catch (error) {
+        io.stderr(`${options.config ?? DEFAULT_CONFIG_FILE}: ${error instanceof Error ? error.message : error}\n`);
+        return 2;
+    }
+    if (options.mode && !config.profiles.some(profile => profile.name === options.mode)) {
+        io.stderr(`Unknown mode: ${options.mode}\n`);
+        return 2;
+    }
+
+    let exitCode = 0;
+    const reportError = (file: string, error: unknown) => {
+        io.stderr(`${file}: ${error instanceof Error ? error.message : error}\n`);
+        exitCode = Math.max(exitCode, 1);
+    };
+
+    const files = options.files.length > 0 ? expandFiles(options.files, reportError) : [STDIN_FILE];
+    const writesToStdout = options.command !== 'detect' && !options.write && !options.check;
+    if (writesToStdout && files.length > 1) {
+        io.stderr('Formatting several files requires --write or --check\n');
+        return 2;
+    }
+
+    for (const file of files) {
+        try {
+            const text = file === STDIN_FILE ? await io.readStdin() : fs.readFileSync(file, 'utf8');
+            exitCode = Math.max(exitCode, processFile(file, text, options, config, io));
+        } catch (error) {
+            reportError(file, error);
+        }
+    }
+
+    return exitCode;
+}
+
+function processFile(file: string, text: string, options: CliOptions, config: CliConfig, io: CliIo): number {
+    const label = file === STDIN_FILE ? '<stdin>' : file;
+
+    if (options.command === 'detect') {
+        const mode = detectCurrentMode(text) ?? 'unknown';
+        io.stdout(file === STDIN_FILE ? `${mode}\n` : `${file}\t${mode}\n`);
+        return 0;
+    }
+
+    const mode = options.mode ?? resolveMode(file, text, config);
+    const profile = config.profiles.find(candidate => candidate.name === mode)!;
+    const layout = formatMarkdown(text, profile, config.formatOptions);
+    // Like the extension, a conversion also updates the file's mode directive
+    const formatted = setModeDirective(layout, mode);
+
+    if (options.check) {
+        if (formatted !== text) {
+            io.stderr(`${label}: not in ${mode} mode\n`);
+            return 1;
+        }
+        return 0;
+    }
+
+    const differences = findSemanticDifferences(text, layout);
+    if (differences.length > 0 && !options.force) {
+        io.stderr(`${label}: ${mode} mode would change the content; use --force to apply anyway\n`);
+        for (const difference of differences) {
+            io.stderr(`  ${describeDifference(difference)}\n`);
+        }
+        if (!options.write || file === STDIN_FILE) {
+            io.stdout(text);
+        }
+        return 1;
+    }
+
+    if (options.write && file !== STDIN_FILE) {
+        if (formatted !== text) {
+            fs.writeFileSync(file, formatted, 'utf8');
+            io.stdout(`${file}\n`);
+        }
+    } else {
+        io.stdout(formatted);
+    }
+    return 0;
+}
+
+function parseArgs(args: string[]): CliOptions {
+    const [command, ...rest] = args;
+    if (!command) {
+        throw new Error('Missing command');
+    }
+    if (!['compact', 'human', 'detect', 'check'].includes(command)) {
+        throw new Error(`Unknown command: ${command}`);
+    }
+
+    const options: CliOptions = {
+        command: command as CliOptions['command'],
+        mode: command === 'human' || command === 'compact' ? command : undefined,
+        write: false,
+        check: command === 'check',
+        force: false,
+        files: []
+    };
+
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        if (arg === '-w' || arg === '--write') {
+            options.write = true;
+        } else if (arg === '-c' || arg === '--check') {
+            options.check = true;
+        } else if (arg === '--force') {
+            options.force = true;
+        } else if (arg === '--mode' || arg.startsWith('--mode=')) {
+            const mode = arg === '--mode' ? rest[++i] : arg.substring('--mode='.length);
+            if (!mode) {
+                throw new Error('Missing mode');
+            }
+            if (command === 'compact' || command === 'human') {
+                throw new Error(`--mode cannot be combined with the ${command} command`);
+            }
+            options.mode = mode;
+        } else if (arg === '--config' || arg.startsWith('--config=')) {
+            options.config = arg === '--config' ? rest[++i] : arg.substring('--config='.length);
+            if (!options.config) {
+                throw new Error('Missing settings file');
+            }
+        } else if (arg.startsWith('-') && arg !== STDIN_FILE) {
+            throw new Error(`Unknown option: ${arg}`);
+        } else {
+            options.files.push(arg);
+        }
+    }
+
+    if (options.write && options.check) {
+        throw new Error('--write and --check cannot be combined');
+    }
+
+    return options;
+}
+
+/**
+ * Reads the markdown-angel settings from a VS Code settings file, which may
+ * contain comments and trailing commas. Without a file the defaults apply.
+ */
+function loadConfig(configFile: string | undefined, warn: (message: string) => void): CliConfig {
+    const file = configFile ?? (fs.existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+    const settings: CliSettings = {};
+
+    if (file) {
+        const json = fs.readFileSync(file, 'utf8')
+            .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\/|,(?=\s*[}\]])/g, (_match, string?: string) => string ?? '');
+        const values: Record<string, unknown> = JSON.parse(json);
+        for (const [key, value] of Object.entries(values)) {
+            if (key.startsWith(SETTINGS_PREFIX)) {
+                (settings as Record<string, unknown>)[key.substring(SETTINGS_PREFIX.length)] = value;
+            }
+        }
+    }
+
+    // Globs are relative to the workspace folder holding .vscode/settings.json
+    const directory = file ? path.dirname(path.resolve(file)) : process.cwd();
+    return {
+        profiles: buildProfiles(settings.profiles ?? [], warn),
+        formatOptions: buildFormatOptions(settings),
+        defaultModes: settings.defaultModes ?? {},
+        root: file && path.basename(directory) === '.vscode' ? path.dirname(directory) : directory
+    };
+}
+
+/**
+ * Resolves the mode of a file as the extension does for a file without a
+ * chosen mode: its directive, a `defaultModes` glob, then compact
+ */
+function resolveMode(file: string, text: string, config: CliConfig): MarkdownMode {
+    const isKnown = (mode: string) => config.profiles.some(profile => profile.name === mode);
+
+    const directive = findModeDirective(text);
+    if (directive && isKnown(directive.mode)) {
+        return directive.mode;
+    }
+
+    if (file !== STDIN_FILE) {
+        const relative = path.relative(config.root, path.resolve(file)).split(path.sep).join('/');
+        for (const [pattern, mode] of Object.entries(config.defaultModes)) {
+            if (isKnown(mode) && globToRegExp(pattern).test(relative)) {
+                return mode;
+            }
+        }
+    }
+
+    return 'compact';
+}
+
+/**
+ * Converts a VS Code glob (`**`, `*`, `?`, `{a,b}` and `[...]`) to an anchored regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braces = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (glob.startsWith('**/', i)) {
+            source += '(?:.*/)?';
+            i += 2;
+        } else if (glob.startsWith('**', i)) {
+            source += '.*';
+            i++;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            source += '(?:';
+            braces++;
+        } else if (char === '}' && braces > 0) {
+            source += ')';
+            braces--;
+        } else if (char === ',' && braces > 0) {
+            source += '|';
+        } else if (char === '[' && glob.indexOf(']', i + 1) !== -1) {
+            const end = glob.indexOf(']', i + 1);
+            source += '[' + glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+            i = end;
+        } else {
+            source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expands directories to the markdown files below them; entries that cannot be
+ * read, such as dangling symlinks, are reported and skipped
+ */
+function expandFiles(files: string[], onError: (file: string, error: unknown) => void): string[] {
+    const result: string[] = [];
+
+    const visit = (file: string) => {
+        let entries: string[];
+        try {
+            if (file === STDIN_FILE || !fs.existsSync(file) || !fs.statSync(file).isDirectory()) {
+                result.push(file);
+                return;
+            }
+            entries = fs.readdirSync(file).sort();
+        } catch (error) {
+            onError(file, error);
+            return;
+        }
+
+        for (const entry of entries) {
+            const child = path.join(file, entry);
+            try {
+                if (fs.statSync(child).isDirectory()) {
+                    if (!SKIPPED_DIRECTORIES.includes(entry)) {
+                        visit(child);
+                    }
+                } else if (MARKDOWN_EXTENSIONS.includes(path.extname(entry).toLowerCase())) {
+                    result.push(child);
+                }
+            } catch (error) {
+                onError(child, error);
+            }
+        }
+    };
+
+    files.forEach(visit);
+    return result;
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    }).catch(error => {
+        process.stderr.write(`markdown-angel: ${error instanceof Error ? error.message : error}\n`);
+        process.exitCode = 2;
+    });
+}
@@ -0,0 +1,164 @@
+/**
+ * Context Bundle
+ * Concatenates several markdown files into one compact document, with links between them pointing inside the bundle
+ */
+
+import * as path from 'path';
+import { FormatOptions, compactFormat } from './markdownFormatter';
+import { parseMarkdownBlocks, splitLines } from './markdownBlocks';
+import { findHeadingAnchors } from './headingAnchors';
+import { findFrontMatter } from './frontMatter';
+import { LinkSpan, findLinks } from './linkReferences';
+
+export interface BundleFile {
+    /** Path shown in the file's header, relative to the workspace with '/' separators */
+    path: string;
+    markdown: string;
+}
+
+interface BundledFile {
+    path: string;
+    /** Path header, and front matter as a fenced block */
+    header: string[];
+    content: string[];
+    /** Slugs of the file's own headings when viewed on its own, in order */
+    slugs: string[];
+}
+
+interface BundleTarget {
+    /** Anchor of the file's path header */
+    header: string;
+    /** Anchors of the file's headings in the bundle, by their decoded slug in the file */
+    sections: Map<string, string>;
+}
+
+const URL_SCHEME_REGEX = /^[a-z][a-z\d+.-]*:/i;
+const ATX_HEADING_REGEX = /^( {0,3})(#{1,5})(?=[ \t]|$)/;
+
+/**
+ * Bundles files in the given order. Each file gets a level 1 header with its
+ * path and is compacted with its headings demoted one level (level 6 headings
+ * stay at 6). Front matter becomes a fenced block under the header. Links
+ * between bundled files, and to headings within them, are rewritten to the
+ * anchors the headings get in the bundle.
+ */
+export function bundleMarkdownFiles(files: BundleFile[], options?: FormatOptions): string {
+    const bundled = files.map(file => bundleFile(file, options));
+    const starts: number[] = [];
+    const lines: string[] = [];
+
+    for (const file of bundled) {
+        if (lines.length > 0) {
+            lines.push('');
+        }
+        starts.push(lines.length + file.header.length);
+        lines.push(...file.header, ...file.content);
+    }
+
+    // Anchors are only known once every file is in place, since repeated headings get numbered
+    const anchors = findHeadingAnchors(lines.join('\n'));
+    const targets = new Map<string, BundleTarget>();
+    let anchorIndex = 0;
+    for (const file of bundled) {
+        const header = anchors[anchorIndex++]?.slug ?? '';
+        const sections = new Map(file.slugs.map(slug => [decodeSlug(slug), anchors[anchorIndex++]?.slug ?? header]));
+        targets.set(file.path, { header, sections });
+    }
+
+    // Reference definitions of an earlier file can shadow those of a later one
+    const bundleLinks = new Map(findLinks(lines.join('\n')).map(link => [`${link.line}:${link.start}`, link]));
+    const edits: (LinkSpan & { replacement: string })[] = [];
+
+    bundled.forEach((file, index) => {
+        for (const link of findLinks(file.content.join('\n'))) {
+            if (link.isImage) {
+                continue;
+            }
+
+            const line = starts[index] + link.line;
+            const target = resolveLink(link.destination, file.path, targets);
+            if (target !== null) {
+                edits.push({ ...link, line, replacement: `[${link.text}](#${target})` });
+            } else if (bundleLinks.get(`${line}:${link.start}`)?.destination !== link.destination) {
+                const destination = /[()]/.test(link.destination) ? `<${link.destination}>` : link.destination;
+                edits.push({ ...link, line, replacement: `[${link.text}](${destination})` });
+            }
+        }
+    });
+
+    for (const edit of edits.reverse()) {
+        lines[edit.line] = lines[edit.line].substring(0, edit.start) + edit.replacement + lines[edit.line].substring(edit.end);
+    }
+    return lines.join('\n') + '\n';
+}
+
+function bundleFile(file: BundleFile, options: FormatOptions | undefined): BundledFile {
+    const frontMatter = findFrontMatter(file.markdown);
+    const body = frontMatter ? file.markdown.substring(frontMatter.raw.length) : file.markdown;
+    const compact = compactFormat(body, options).replace(/\s+$/, '');
+
+    const header = [`# ${file.path}`];
+    if (frontMatter) {
+        header.push('```' + frontMatter.format, ...splitLines(frontMatter.content), '```');
+    }
+
+    return {
+        path: file.path,
+        header,
+        content: compact ? demoteHeadings(splitLines(compact)) : [],
+        slugs: findHeadingAnchors(file.markdown).map(anchor => anchor.slug)
+    };
+}
+
+/**
+ * Moves top-level headings down one level; setext headings become ATX headings
+ */
+function demoteHeadings(lines: string[]): string[] {
+    const output = [...lines];
+    const underlines = new Set<number>();
+
+    for (const block of parseMarkdownBlocks(lines.join('\n'))) {
+        if (block.kind !== 'heading') {
+            continue;
+        }
+        if (block.markup === '=' || block.markup === '-') {
+            const text = lines.slice(block.startLine, block.endLine - 1).map(line => line.trim()).join(' ');
+            output[block.startLine] = `${block.markup === '=' ? '##' : '###'} ${text}`;
+            for (let line = block.startLine + 1; line < block.endLine; line++) {
+                underlines.add(line);
+            }
+        } else {
+            output[block.startLine] = output[block.startLine].replace(ATX_HEADING_REGEX, '$1#$2');
+        }
+    }
+
+    return output.filter((_, index) => !underlines.has(index));
+}
+
+/**
+ * Returns the bundle anchor a link points to, or null if it points outside the bundle
+ */
+function resolveLink(destination: string, from: string, targets: Map<string, BundleTarget>): string | null {
+    if (!destination || URL_SCHEME_REGEX.test(destination) || destination.startsWith('/')) {
+        return null;
+    }
+
+    const hashIndex = destination.indexOf('#');
+    const filePart = hashIndex === -1 ? destination : destination.substring(0, hashIndex);
+    const fragment = hashIndex === -1 ? '' : destination.substring(hashIndex + 1);
+    const file = filePart ? path.posix.join(path.posix.dirname(from), decodeSlug(filePart)) : from;
+    const target = targets.get(file);
+    if (!target) {
+        return null;
+    }
+
+    return fragment ? target.sections.get(decodeSlug(fragment)) ?? target.header : target.header;
+}
+
+function decodeSlug(slug: string): string {
+    try {
+        return decodeURIComponent(slug);
+    } catch {
+        return slug;
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Copy for AI
+ * Command that exports the active document (or selection) in compact form to the clipboard or a new editor, leaving the file untouched
+ */
+
+import * as vscode from 'vscode';
+import { AIExportFilters, exportForAI } from './aiExport';
+import { ModeManager } from './modeManager';
+import { countTokens, formatTokenCount } from './tokenCounter';
+
+type ExportDestination = 'clipboard' | 'editor';
+
+interface AIExportSettings extends AIExportFilters {
+    destination?: ExportDestination;
+}
+
+const DEFAULT_SETTINGS: AIExportSettings = {
+    stripHtmlComments: true,
+    stripBadges: true,
+    imagesToAltText: true,
+    stripLinkUrls: false,
+    stripTocMarker: true,
+    destination: 'clipboard'
+};
+
+async function copyForAI(modeManager: ModeManager): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showWarningMessage('Please open a markdown file first');
+        return;
+    }
+
+    const settings: AIExportSettings = {
+        ...DEFAULT_SETTINGS,
+        ...vscode.workspace.getConfiguration('markdown-angel').get<AIExportSettings>('aiExport', {})
+    };
+    const source = editor.selection.isEmpty ? editor.document.getText() : editor.document.getText(editor.selection);
+    const exported = exportForAI(source, settings, modeManager.getFormatOptions());
+
+    const tokens = countTokens(exported);
+    const saved = countTokens(source) - tokens;
+    const summary = `~${formatTokenCount(tokens)} tokens` + (saved > 0 ? `, ${formatTokenCount(saved)} fewer than the source` : '');
+
+    if (settings.destination === 'editor') {
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: exported });
+        await vscode.window.showTextDocument(document, { preview: false });
+        vscode.window.showInformationMessage(`Exported for AI: ${summary}`);
+    } else {
+        await vscode.env.clipboard.writeText(exported);
+        vscode.window.showInformationMessage(`Copied for AI: ${summary}`);
+    }
+}
+
+export function registerCopyForAICommand(context: vscode.ExtensionContext, modeManager: ModeManager): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdown-angel.copyForAI', () => {
+            copyForAI(modeManager).catch(error => {
+                console.error('Error exporting for AI:', error);
+                vscode.window.showErrorMessage(`Error exporting for AI: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            });
+        })
+    );
+}
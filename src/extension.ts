@@ -1,6 +1,14 @@
 import * as vscode from 'vscode';
 import { MarkdownViewer } from './markdownViewer';
 import { ModeManager, registerModeCommands } from './modeManager';
+import { registerFormattingProviders } from './formattingProvider';
+import { registerBulkConversionCommands } from './bulkConversion';
+import { registerStoredModesView } from './storedModesView';
+import { registerCopyForAICommand } from './copyForAI';
+import { registerTrimCommand } from './trimCommand';
+import { registerChunkExportCommand } from './chunkExport';
+import { registerBundleCommand } from './bundleCommand';
+import { registerModeViews } from './modeView';
 
 let modeManager: ModeManager | undefined;
 let markdownViewer: MarkdownViewer | undefined;
@@ -26,6 +34,39 @@ export function activate(context: vscode.ExtensionContext): void {
 		registerModeCommands(context, modeManager);
 		console.log('[Markdown Angel] Mode commands registered');
 
+		console.log('[Markdown Angel] Registering formatting providers...');
+		// Format Document / Format Selection / format on save apply the file's current mode
+		registerFormattingProviders(context, modeManager);
+		console.log('[Markdown Angel] Formatting providers registered');
+
+		console.log('[Markdown Angel] Registering bulk conversion command...');
+		registerBulkConversionCommands(context, modeManager);
+		console.log('[Markdown Angel] Bulk conversion command registered');
+
+		console.log('[Markdown Angel] Registering stored modes view...');
+		registerStoredModesView(context, modeManager);
+		console.log('[Markdown Angel] Stored modes view registered');
+
+		console.log('[Markdown Angel] Registering Copy for AI command...');
+		registerCopyForAICommand(context, modeManager);
+		console.log('[Markdown Angel] Copy for AI command registered');
+
+		console.log('[Markdown Angel] Registering trim to budget command...');
+		registerTrimCommand(context, modeManager);
+		console.log('[Markdown Angel] Trim to budget command registered');
+
+		console.log('[Markdown Angel] Registering chunk export command...');
+		registerChunkExportCommand(context, modeManager);
+		console.log('[Markdown Angel] Chunk export command registered');
+
+		console.log('[Markdown Angel] Registering bundle command...');
+		registerBundleCommand(context, modeManager);
+		console.log('[Markdown Angel] Bundle command registered');
+
+		console.log('[Markdown Angel] Registering mode views...');
+		registerModeViews(context, modeManager);
+		console.log('[Markdown Angel] Mode views registered');
+
 console.log('[Markdown Angel] Registering openViewer command...');
 // Register command: Open Viewer
 const openViewerCommand = vscode.commands.registerCommand(
@@ -85,11 +126,26 @@ console.error('Error going to top:', error);
 
 console.log('[Markdown Angel] goToTop command registered');
 
+// Register command: Go to Heading in Source (TOC context menu in the preview)
+const goToHeadingInSourceCommand = vscode.commands.registerCommand(
+'markdown-angel.goToHeadingInSource',
+async (target: { line?: number; endLine?: number } = {}) => {
+try {
+await markdownViewer?.goToHeadingInSource(target);
+} catch (error) {
+const message = error instanceof Error ? error.message : 'Unknown error';
+vscode.window.showErrorMessage(`Failed to go to heading: ${message}`);
+console.error('Error going to heading in source:', error);
+}
+}
+);
+
 console.log('[Markdown Angel] Adding commands to subscriptions...');
 // Add commands to subscriptions for proper disposal
 context.subscriptions.push(
 openViewerCommand,
 goToTopCommand,
+goToHeadingInSourceCommand,
 markdownViewer,
 modeManager
 );
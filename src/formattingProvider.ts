@@ -0,0 +1,101 @@
+/**
+ * Formatting Provider
+ * Exposes the current file mode to "Format Document", "Format Selection" and format on save
+ */
+
+import * as vscode from 'vscode';
+import { formatMarkdown } from './markdownFormatter';
+import { findSemanticDifferences } from './markdownEquivalence';
+import { parseMarkdownBlocks } from './markdownBlocks';
+import { ModeManager } from './modeManager';
+import { isModeView } from './modeView';
+import { diffLines } from './textDiff';
+
+export class MarkdownFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+    private modeManager: ModeManager;
+
+    constructor(modeManager: ModeManager) {
+        this.modeManager = modeManager;
+    }
+
+    public provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+        const lastLine = document.lineAt(document.lineCount - 1);
+        const fullRange = new vscode.Range(new vscode.Position(0, 0), lastLine.range.end);
+        return this.formatRange(document, fullRange, true);
+    }
+
+    public provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range): vscode.TextEdit[] {
+        // Widen the selection to whole top-level blocks so no block is formatted in isolation from its own lines
+        const lastSelectedLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+        const blocks = parseMarkdownBlocks(document.getText())
+            .filter(block => block.endLine > range.start.line && block.startLine <= lastSelectedLine);
+
+        if (blocks.length === 0) {
+            return [];
+        }
+
+        const startLine = blocks[0].startLine;
+        const endLine = blocks[blocks.length - 1].endLine - 1;
+        const blockRange = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+        return this.formatRange(document, blockRange, false);
+    }
+
+    private formatRange(document: vscode.TextDocument, range: vscode.Range, isFullDocument: boolean): vscode.TextEdit[] {
+        // The views of a file in another mode are read-only
+        if (isModeView(document.uri)) {
+            return [];
+        }
+
+        const mode = this.modeManager.getCurrentMode(document);
+        const profile = this.modeManager.getProfile(mode);
+        if (!profile) {
+            return [];
+        }
+
+        // Link definitions can be used anywhere in the document, so a selection
+        // alone cannot tell which ones to inline or which labels are free
+        const options = this.modeManager.getFormatOptions();
+        if (!isFullDocument) {
+            options.referenceLinks = undefined;
+            options.inlineReferences = undefined;
+        }
+
+        const originalText = document.getText(range);
+        let formattedText = formatMarkdown(originalText, profile, options);
+        if (!isFullDocument) {
+            // The range ends at the end of its last line, before the line break
+            formattedText = formattedText.replace(/\r?\n$/, '');
+        }
+
+        if (formattedText === originalText) {
+            return [];
+        }
+
+        // Formatting runs unattended (e.g. on save), so never apply a change to content
+        if (findSemanticDifferences(originalText, formattedText).length > 0) {
+            vscode.window.showWarningMessage(
+                `Markdown Angel skipped formatting: applying ${mode} mode would change the content. Use Toggle Mode to review the changes.`
+            );
+            return [];
+        }
+
+        const rangeOffset = document.offsetAt(range.start);
+        return diffLines(originalText, formattedText).map(hunk => vscode.TextEdit.replace(
+            new vscode.Range(document.positionAt(rangeOffset + hunk.oldStart), document.positionAt(rangeOffset + hunk.oldEnd)),
+            hunk.newText
+        ));
+    }
+}
+
+/**
+ * Register Markdown Angel as a document and range formatter for markdown
+ */
+export function registerFormattingProviders(context: vscode.ExtensionContext, modeManager: ModeManager): void {
+    const provider = new MarkdownFormattingProvider(modeManager);
+    const selector: vscode.DocumentSelector = { language: 'markdown' };
+
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider(selector, provider),
+        vscode.languages.registerDocumentRangeFormattingEditProvider(selector, provider)
+    );
+}
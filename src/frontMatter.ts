@@ -0,0 +1,82 @@
+/**
+ * Front Matter
+ * Detects YAML (---) and TOML (+++) front matter so it is kept out of formatting, detection and rendering
+ */
+
+export interface FrontMatter {
+    format: 'yaml' | 'toml';
+    /** Line after the closing delimiter (0-based) */
+    endLine: number;
+    /** Front matter exactly as written, including delimiters and the final line break */
+    raw: string;
+    /** Lines between the delimiters */
+    content: string;
+}
+
+const OPENING_DELIMITERS = new Map<string, FrontMatter['format']>([
+    ['---', 'yaml'],
+    ['+++', 'toml']
+]);
+
+/**
+ * Returns the front matter at the very start of the document, if any
+ */
+export function findFrontMatter(markdown: string): FrontMatter | null {
+    const lines: string[] = markdown.match(/[^\r\n]*(\r\n|\r|\n)|[^\r\n]+$/g) ?? [];
+    const format = lines.length > 0 ? OPENING_DELIMITERS.get(lines[0].trimEnd()) : undefined;
+    if (!format) {
+        return null;
+    }
+
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i].trimEnd();
+        const isClosing = format === 'yaml' ? line === '---' || line === '...' : line === '+++';
+        if (isClosing) {
+            return {
+                format,
+                endLine: i + 1,
+                raw: lines.slice(0, i + 1).join(''),
+                content: lines.slice(1, i).join('').replace(/\r?\n$/, '')
+            };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Replaces front matter lines with blank lines, so markdown parses as if it
+ * were absent while line numbers stay those of the original document
+ */
+export function maskFrontMatter(markdown: string): string {
+    const frontMatter = findFrontMatter(markdown);
+    if (!frontMatter) {
+        return markdown;
+    }
+    return frontMatter.raw.replace(/[^\r\n]+/g, '') + markdown.substring(frontMatter.raw.length);
+}
+
+/**
+ * Reads the top-level fields of front matter for display. Values spanning
+ * several lines (nested YAML, lists) are kept as written; TOML tables are skipped.
+ */
+export function parseFrontMatterFields(frontMatter: FrontMatter): [string, string][] {
+    const fields: [string, string][] = [];
+    const separator = frontMatter.format === 'yaml' ? /^([A-Za-z0-9_.-]+)\s*:\s?(.*)$/ : /^([A-Za-z0-9_."-]+)\s*=\s*(.*)$/;
+
+    for (const line of frontMatter.content.split(/\r?\n/)) {
+        if (frontMatter.format === 'toml' && line.startsWith('[')) {
+            // Keys after the first table header belong to that table
+            break;
+        }
+        const match = /^\s/.test(line) || line.startsWith('- ') ? null : separator.exec(line);
+        if (match) {
+            fields.push([match[1].replace(/^"|"$/g, ''), match[2].trim()]);
+        } else if (fields.length > 0 && line.trim() !== '') {
+            const last = fields[fields.length - 1];
+            last[1] = last[1] ? `${last[1]}\n${line}` : line;
+        }
+    }
+
+    return fields;
+}
@@ -0,0 +1,45 @@
+/**
+ * Heading Anchors
+ * Finds the top-level headings of a document with the anchor ids the viewer gives them
+ */
+
+import MarkdownIt from 'markdown-it';
+import markdownItAnchor from 'markdown-it-anchor';
+import { maskFrontMatter } from './frontMatter';
+
+export interface HeadingAnchor {
+    /** Heading text as written */
+    text: string;
+    /** Heading level (1-6) */
+    level: number;
+    /** Source line of the heading (0-based) */
+    line: number;
+    /** Id of the heading in the viewer, usable as a `#fragment` */
+    slug: string;
+}
+
+// Typographer and linkify change the heading text the slugs are made from, so
+// the viewer's options are needed here too
+const parser = new MarkdownIt({ html: true, linkify: true, typographer: true })
+    .use(markdownItAnchor, { level: [1, 2, 3, 4, 5, 6] });
+
+/**
+ * Returns the headings outside lists and blockquotes in document order.
+ * Slugs are deduplicated across all headings, nested ones included, the same
+ * way markdown-it-anchor does it in the viewer.
+ */
+export function findHeadingAnchors(markdown: string): HeadingAnchor[] {
+    const tokens = parser.parse(maskFrontMatter(markdown), {});
+
+    return tokens.flatMap((token, index) => {
+        if (token.type !== 'heading_open' || token.level !== 0 || !token.map) {
+            return [];
+        }
+        return [{
+            text: tokens[index + 1]?.content ?? '',
+            level: Number(token.tag.substring(1)),
+            line: token.map[0],
+            slug: token.attrGet('id') ?? ''
+        }];
+    });
+}
@@ -0,0 +1,435 @@
+/**
+ * Link References
+ * Moves inline link destinations into deduplicated reference definitions for reading, and single-use references back inline for AI context
+ */
+
+import MarkdownIt from 'markdown-it';
+import Token from 'markdown-it/lib/token';
+import StateInline from 'markdown-it/lib/rules_inline/state_inline';
+import { createPositionLocator, parseMarkdownBlocks, splitLines } from './markdownBlocks';
+import { maskFrontMatter } from './frontMatter';
+import { findSemanticDifferences } from './markdownEquivalence';
+
+/**
+ * Where new reference definitions go: before the heading that ends the section
+ * of their first use, or at the end of the document
+ */
+export type ReferencePlacement = 'section' | 'document';
+
+interface LinkSource {
+    /** Offset of the opening bracket, or of the '!' of an image */
+    start: number;
+    /** Offset just after the closing bracket of the link text */
+    tailStart: number;
+    /** Offset just after the link */
+    end: number;
+    /** Destination and title as written, for inline links */
+    target?: string;
+    /** Label as written, for reference links */
+    label?: string;
+}
+
+interface PendingLink {
+    tokenIndex: number;
+    source: LinkSource;
+}
+
+interface Definition {
+    /** Label as written */
+    label: string;
+    line: number;
+    /** Destination and title as written */
+    target: string;
+}
+
+interface LineEdit {
+    line: number;
+    start: number;
+    end: number;
+    text: string;
+}
+
+type Locator = (offset: number) => [number, number] | null;
+
+interface ReferenceEnv {
+    references?: Record<string, { href: string; title: string }>;
+}
+
+const DEFINITION_REGEX = /^ {0,3}\[((?:[^\\[\]]|\\.)+)\]:[ \t]*(\S.*?)[ \t]*$/;
+
+// Records where each link was found, since inline tokens carry no source positions
+const pendingLinks = new WeakMap<StateInline, PendingLink[]>();
+const linkParser = new MarkdownIt({ html: true });
+
+for (const [ruleName, marker] of [['link', '['], ['image', '!']] as const) {
+    linkParser.inline.ruler.before(ruleName, `angel_${ruleName}_positions`, (state, silent) => {
+        const source = silent || state.src[state.pos] !== marker ? null : scanLink(state, ruleName === 'image');
+        if (source) {
+            // The link rule pushes pending text first, then the link_open or image token
+            const links = pendingLinks.get(state) ?? [];
+            links.push({ tokenIndex: state.tokens.length + (state.pending ? 1 : 0), source });
+            pendingLinks.set(state, links);
+        }
+        return false;
+    });
+}
+
+linkParser.inline.ruler2.before('balance_pairs', 'angel_link_positions', (state) => {
+    for (const { tokenIndex, source } of pendingLinks.get(state) ?? []) {
+        const token = state.tokens[tokenIndex];
+        if (token && (token.type === 'link_open' || token.type === 'image')) {
+            token.meta = { ...token.meta, linkSource: source };
+        }
+    }
+    pendingLinks.delete(state);
+    return false;
+});
+
+/**
+ * A link or image written on one line, located in the source
+ */
+export interface LinkSpan {
+    line: number;
+    /** Columns of the whole link, from the opening bracket (or '!') to just after its end */
+    start: number;
+    end: number;
+    /** Link text or image description as written, without the brackets */
+    text: string;
+    isImage: boolean;
+    /** Normalized destination: the link's href or the image's src */
+    destination: string;
+}
+
+/**
+ * Finds the links and images of a document that are written on one line, in
+ * source order. Links inside image descriptions are not included.
+ */
+export function findLinks(markdown: string): LinkSpan[] {
+    const lines = splitLines(markdown);
+    const tokens = linkParser.parse(maskFrontMatter(markdown), {});
+    const links: LinkSpan[] = [];
+
+    forEachLink(tokens, lines, (link, source, locate) => {
+        const start = locate(source.start);
+        const end = locate(source.end);
+        if (start && end && start[0] === end[0]) {
+            const isImage = link.type === 'image';
+            const textStart = start[1] + (isImage ? 2 : 1);
+            links.push({
+                line: start[0],
+                start: start[1],
+                end: end[1],
+                text: lines[start[0]].substring(textStart, textStart + source.tailStart - source.start - (isImage ? 3 : 2)),
+                isImage,
+                destination: link.attrGet(isImage ? 'src' : 'href') ?? ''
+            });
+        }
+    });
+
+    return links.sort((a, b) => a.line - b.line || a.start - b.start);
+}
+
+/**
+ * Rewrites inline links and images as reference links. Links to the same
+ * destination and title share one definition, and existing single-line
+ * definitions are reused. Returns the markdown unchanged if the rewrite would
+ * change how it renders.
+ */
+export function convertToReferenceLinks(markdown: string, placement: ReferencePlacement): string {
+    const lines = splitLines(markdown);
+    const env: ReferenceEnv = {};
+    const tokens = linkParser.parse(maskFrontMatter(markdown), env);
+
+    const labels = new Map<string, string>();
+    for (const [key, definition] of findDefinitions(lines, env)) {
+        const reference = env.references![key];
+        labels.set(`${reference.href}\n${reference.title}`, definition.label);
+    }
+
+    const takenLabels = new Set(Object.keys(env.references ?? {}));
+    const newDefinitions: Definition[] = [];
+    let nextLabel = 1;
+    const edits: LineEdit[] = [];
+
+    forEachLink(tokens, lines, (link, source, locate) => {
+        const target = source.target?.trim();
+        const tail = locateTail(source, locate);
+        if (!target || !tail) {
+            return;
+        }
+
+        const key = `${link.attrGet(link.type === 'image' ? 'src' : 'href')}\n${link.attrGet('title') ?? ''}`;
+        let label = labels.get(key);
+        if (!label) {
+            while (takenLabels.has(String(nextLabel))) {
+                nextLabel++;
+            }
+            label = String(nextLabel);
+            takenLabels.add(label);
+            labels.set(key, label);
+            newDefinitions.push({ label, line: tail.line, target });
+        }
+        edits.push({ ...tail, text: `[${label}]` });
+    });
+
+    if (newDefinitions.length === 0 && edits.length === 0) {
+        return markdown;
+    }
+
+    const output = applyEdits(lines, edits, new Set());
+    const headingLines = placement === 'section'
+        ? parseMarkdownBlocks(markdown).filter(block => block.kind === 'heading').map(block => block.startLine)
+        : [];
+
+    // Insert from the bottom up so earlier insertion points keep their line numbers
+    const insertions = new Map<number, string[]>();
+    for (const definition of newDefinitions) {
+        const at = headingLines.find(line => line > definition.line) ?? trimBlankLinesEnd(output);
+        insertions.set(at, [...insertions.get(at) ?? [], `[${definition.label}]: ${definition.target}`]);
+    }
+    for (const at of [...insertions.keys()].sort((a, b) => b - a)) {
+        // Definitions go right after the section's content, separated from it by a blank line
+        const position = trimBlankLinesEnd(output.slice(0, at));
+        output.splice(position, 0, '', ...insertions.get(at)!);
+    }
+
+    return keepIfEquivalent(markdown, joinLines(output, markdown));
+}
+
+/**
+ * Rewrites references that are used once as inline links, and removes their
+ * definitions along with definitions that are never used. Only single-line
+ * definitions outside containers are touched. Returns the markdown unchanged if
+ * the rewrite would change how it renders.
+ */
+export function inlineReferenceLinks(markdown: string): string {
+    const lines = splitLines(markdown);
+    const env: ReferenceEnv = {};
+    const tokens = linkParser.parse(maskFrontMatter(markdown), env);
+    const definitions = findDefinitions(lines, env);
+    const removedLines = new Set<number>();
+
+    // Later definitions of the same label are ignored by the parser
+    const uses = new Map<string, { source: LinkSource; locate: Locator; inTable: boolean }[]>();
+    forEachLink(tokens, lines, (_, source, locate, inTable) => {
+        if (source.label !== undefined) {
+            const label = linkParser.utils.normalizeReference(source.label);
+            uses.set(label, [...uses.get(label) ?? [], { source, locate, inTable }]);
+        }
+    });
+
+    const edits: LineEdit[] = [];
+    for (const [label, definition] of definitions) {
+        const found = uses.get(label) ?? [];
+        if (found.length === 0) {
+            removedLines.add(definition.line);
+            continue;
+        }
+
+        const [use] = found;
+        const tail = locateTail(use.source, use.locate);
+        if (found.length === 1 && tail && !(use.inTable && definition.target.includes('|'))) {
+            edits.push({ ...tail, text: `(${definition.target})` });
+            removedLines.add(definition.line);
+        }
+    }
+    for (const line of findDuplicateDefinitions(lines, definitions)) {
+        removedLines.add(line);
+    }
+
+    if (edits.length === 0 && removedLines.size === 0) {
+        return markdown;
+    }
+    return keepIfEquivalent(markdown, joinLines(applyEdits(lines, edits, removedLines), markdown));
+}
+
+/**
+ * Finds the end of an inline link `[text](destination "title")` or the label of a
+ * reference link `[text][label]`, `[text][]` or `[text]` starting at the current
+ * position, following markdown-it's link rule. Whether it is a link is decided by
+ * that rule; this only measures it.
+ */
+function scanLink(state: StateInline, isImage: boolean): LinkSource | null {
+    const { src, posMax: max } = state;
+    const labelStart = state.pos + (isImage ? 1 : 0);
+    if (src[labelStart] !== '[') {
+        return null;
+    }
+
+    const labelEnd = linkParser.helpers.parseLinkLabel(state, labelStart, !isImage);
+    if (labelEnd < 0) {
+        return null;
+    }
+
+    let pos = labelEnd + 1;
+    if (src[pos] === '(') {
+        const targetStart = pos + 1;
+        pos = skipWhitespace(src, pos + 1, max);
+        const destination = linkParser.helpers.parseLinkDestination(src, pos, max);
+        if (destination.ok && linkParser.validateLink(linkParser.normalizeLink(destination.str))) {
+            pos = destination.pos;
+            const afterDestination = pos;
+            pos = skipWhitespace(src, pos, max);
+            const title = linkParser.helpers.parseLinkTitle(src, pos, max);
+            if (pos < max && pos !== afterDestination && title.ok) {
+                pos = skipWhitespace(src, title.pos, max);
+            }
+        }
+        if (src[pos] === ')') {
+            return { start: state.pos, tailStart: labelEnd + 1, end: pos + 1, target: src.substring(targetStart, pos) };
+        }
+        pos = labelEnd + 1;
+    }
+
+    if (src[pos] === '[') {
+        const referenceEnd = linkParser.helpers.parseLinkLabel(state, pos);
+        if (referenceEnd >= 0) {
+            const label = src.substring(pos + 1, referenceEnd);
+            return { start: state.pos, tailStart: labelEnd + 1, end: referenceEnd + 1, label: label || src.substring(labelStart + 1, labelEnd) };
+        }
+    }
+    return { start: state.pos, tailStart: labelEnd + 1, end: labelEnd + 1, label: src.substring(labelStart + 1, labelEnd) };
+}
+
+function skipWhitespace(src: string, pos: number, max: number): number {
+    while (pos < max && /[ \t\n]/.test(src[pos])) {
+        pos++;
+    }
+    return pos;
+}
+
+function forEachLink(
+    tokens: Token[],
+    lines: string[],
+    callback: (link: Token, source: LinkSource, locate: Locator, inTable: boolean) => void
+): void {
+    tokens.forEach((token, index) => {
+        if (token.type !== 'inline' || !token.map) {
+            return;
+        }
+
+        const parent = tokens[index - 1];
+        const inTable = parent?.type === 'th_open' || parent?.type === 'td_open';
+        const visit = (children: Token[], locate: Locator) => {
+            for (const child of children) {
+                if (child.meta?.linkSource) {
+                    callback(child, child.meta.linkSource, locate, inTable);
+                }
+                // Image descriptions are parsed from their own source, so links inside them are counted but cannot be located
+                if (child.type === 'image') {
+                    visit(child.children ?? [], () => null);
+                }
+            }
+        };
+        visit(token.children ?? [], createPositionLocator(token, lines));
+    });
+}
+
+/**
+ * Source range of the part after the link text, if it is on one line
+ */
+function locateTail(source: LinkSource, locate: Locator): Omit<LineEdit, 'text'> | null {
+    const start = locate(source.tailStart);
+    const end = locate(source.end);
+    return start && end && start[0] === end[0] ? { line: start[0], start: start[1], end: end[1] } : null;
+}
+
+/**
+ * First single-line definition of each label outside containers, keyed by
+ * normalized label, if it is the one the parser uses
+ */
+function findDefinitions(lines: string[], env: ReferenceEnv): Map<string, Definition> {
+    const definitions = new Map<string, Definition>();
+
+    for (const [key, definition] of parseDefinitionLines(lines)) {
+        const reference = env.references?.[key];
+        if (!definitions.has(key) && reference?.href === definition.href && reference.title === definition.title) {
+            definitions.set(key, definition);
+        }
+    }
+
+    return definitions;
+}
+
+/**
+ * Lines of single-line definitions whose label an earlier definition already
+ * claimed; the parser ignores them
+ */
+function findDuplicateDefinitions(lines: string[], definitions: Map<string, Definition>): number[] {
+    return parseDefinitionLines(lines)
+        .filter(([key, definition]) => (definitions.get(key)?.line ?? Infinity) < definition.line)
+        .map(([, definition]) => definition.line);
+}
+
+/**
+ * Definitions that take up exactly one line of a top-level raw block. A line only
+ * counts if parsing it with the next line gives the same destination and title,
+ * so a title continued on the next line is not cut off.
+ */
+function parseDefinitionLines(lines: string[]): [string, Definition & { href: string; title: string }][] {
+    const result: [string, Definition & { href: string; title: string }][] = [];
+
+    for (const line of rawLines(lines)) {
+        const match = DEFINITION_REGEX.exec(lines[line]);
+        if (!match) {
+            continue;
+        }
+
+        const key = linkParser.utils.normalizeReference(match[1]);
+        const alone = parseReference(lines[line], key);
+        const withNext = parseReference(`${lines[line]}\n${lines[line + 1] ?? ''}`, key);
+        if (alone && withNext && alone.href === withNext.href && alone.title === withNext.title) {
+            result.push([key, { label: match[1], line, target: match[2], ...alone }]);
+        }
+    }
+
+    return result;
+}
+
+function parseReference(markdown: string, key: string): { href: string; title: string } | undefined {
+    const env: ReferenceEnv = {};
+    linkParser.parse(markdown, env);
+    return env.references?.[key];
+}
+
+/**
+ * Lines of top-level blocks the parser produced no tokens for, which is where reference definitions end up
+ */
+function rawLines(lines: string[]): number[] {
+    const result: number[] = [];
+    for (const block of parseMarkdownBlocks(lines.join('\n'))) {
+        if (block.kind === 'raw') {
+            for (let line = block.startLine; line < block.endLine; line++) {
+                result.push(line);
+            }
+        }
+    }
+    return result;
+}
+
+function applyEdits(lines: string[], edits: LineEdit[], removedLines: Set<number>): string[] {
+    const output = [...lines];
+    const ordered = [...edits].sort((a, b) => a.line - b.line || b.start - a.start);
+
+    for (const edit of ordered) {
+        const text = output[edit.line];
+        output[edit.line] = text.substring(0, edit.start) + edit.text + text.substring(edit.end);
+    }
+    return output.filter((_, line) => !removedLines.has(line));
+}
+
+function trimBlankLinesEnd(lines: string[]): number {
+    let end = lines.length;
+    while (end > 0 && lines[end - 1].trim() === '') {
+        end--;
+    }
+    return end;
+}
+
+function joinLines(lines: string[], original: string): string {
+    return lines.join(original.includes('\r\n') ? '\r\n' : '\n');
+}
+
+function keepIfEquivalent(markdown: string, candidate: string): string {
+    return findSemanticDifferences(markdown, candidate).length === 0 ? candidate : markdown;
+}
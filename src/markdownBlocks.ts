@@ -0,0 +1,211 @@
+/**
+ * Markdown Blocks
+ * Builds a block-level tree of a markdown document from the markdown-it token stream
+ */
+
+import MarkdownIt from 'markdown-it';
+import Token from 'markdown-it/lib/token';
+import { findFrontMatter, maskFrontMatter } from './frontMatter';
+
+export type BlockKind =
+    | 'heading'
+    | 'paragraph'
+    | 'list'
+    | 'listItem'
+    | 'blockquote'
+    | 'fence'
+    | 'code'
+    | 'html'
+    | 'hr'
+    | 'table'
+    | 'frontMatter'
+    | 'raw';
+
+export interface MarkdownBlock {
+    kind: BlockKind;
+    /** First source line of the block (0-based) */
+    startLine: number;
+    /** Line after the last non-blank source line of the block */
+    endLine: number;
+    /** Markup of the opening token ('#', '=' or '-' for headings, the bullet for lists, the fence or rule characters) */
+    markup: string;
+    /** Nested blocks of list, list item and blockquote containers */
+    children: MarkdownBlock[];
+    /** Opening markdown-it token, absent for front matter and raw blocks */
+    token?: Token;
+}
+
+const BLOCK_KINDS = new Map<string, BlockKind>([
+    ['heading_open', 'heading'],
+    ['paragraph_open', 'paragraph'],
+    ['bullet_list_open', 'list'],
+    ['ordered_list_open', 'list'],
+    ['list_item_open', 'listItem'],
+    ['blockquote_open', 'blockquote'],
+    ['fence', 'fence'],
+    ['code_block', 'code'],
+    ['html_block', 'html'],
+    ['hr', 'hr'],
+    ['table_open', 'table']
+]);
+
+const CONTAINER_KINDS: BlockKind[] = ['list', 'listItem', 'blockquote'];
+
+// Same parser options as the viewer; the remaining viewer options only affect inline rendering
+const parser = new MarkdownIt({ html: true });
+
+/**
+ * Splits markdown into lines the same way markdown-it numbers them
+ */
+export function splitLines(markdown: string): string[] {
+    return markdown.split(/\r\n|\r|\n/);
+}
+
+/**
+ * Parses markdown into markdown-it block tokens, skipping front matter
+ */
+export function parseTokens(markdown: string): Token[] {
+    return parser.parse(maskFrontMatter(markdown), {});
+}
+
+/**
+ * Parses markdown into a tree of blocks with source line ranges.
+ * Front matter becomes a leading 'frontMatter' block; non-blank lines that
+ * markdown-it emits no token for (link reference definitions) are returned
+ * as top-level 'raw' blocks.
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+    const lines = splitLines(maskFrontMatter(markdown));
+    const blocks = fillRawBlocks(buildBlockTree(parseTokens(markdown), lines), lines);
+    const frontMatter = findFrontMatter(markdown);
+
+    if (frontMatter) {
+        blocks.unshift({ kind: 'frontMatter', startLine: 0, endLine: frontMatter.endLine, markup: frontMatter.raw.substring(0, 3), children: [] });
+    }
+    return blocks;
+}
+
+/**
+ * Returns the line numbers whose content must never be altered (code, HTML and front matter)
+ */
+export function collectVerbatimLines(blocks: MarkdownBlock[]): Set<number> {
+    const verbatim = new Set<number>();
+    const visit = (block: MarkdownBlock) => {
+        if (block.kind === 'fence' || block.kind === 'code' || block.kind === 'html' || block.kind === 'frontMatter') {
+            const end = block.token?.map ? block.token.map[1] : block.endLine;
+            for (let line = block.startLine; line < end; line++) {
+                verbatim.add(line);
+            }
+        }
+        block.children.forEach(visit);
+    };
+    blocks.forEach(visit);
+    return verbatim;
+}
+
+/**
+ * Maps offsets in an inline token's content to [line, column] in the source.
+ * Content lines are the ends of their source lines, minus indentation and container markers.
+ */
+export function createPositionLocator(token: Token, lines: string[]): (offset: number) => [number, number] | null {
+    const contentLines = token.content.split('\n');
+    const starts: (number | null)[] = contentLines.map((content, index) => {
+        const source = (lines[token.map![0] + index] ?? '').trimEnd();
+        const trimmed = content.trimEnd();
+        return source.endsWith(trimmed) ? source.length - trimmed.length : null;
+    });
+
+    return (offset: number) => {
+        let remaining = offset;
+        for (let index = 0; index < contentLines.length; index++) {
+            if (remaining <= contentLines[index].length) {
+                const start = starts[index];
+                return start === null ? null : [token.map![0] + index, start + remaining];
+            }
+            remaining -= contentLines[index].length + 1;
+        }
+        return null;
+    };
+}
+
+function buildBlockTree(tokens: Token[], lines: string[]): MarkdownBlock[] {
+    const root: MarkdownBlock[] = [];
+    const stack: MarkdownBlock[] = [];
+    let skipUntil: { type: string; level: number } | null = null;
+
+    for (const token of tokens) {
+        if (skipUntil) {
+            if (token.type === skipUntil.type && token.level === skipUntil.level) {
+                skipUntil = null;
+            }
+            continue;
+        }
+
+        if (token.nesting === -1) {
+            stack.pop();
+            continue;
+        }
+
+        const kind = BLOCK_KINDS.get(token.type);
+        if (!kind || !token.map) {
+            continue;
+        }
+
+        const block: MarkdownBlock = {
+            kind,
+            startLine: token.map[0],
+            endLine: trimBlankLinesEnd(lines, token.map[0], token.map[1]),
+            markup: token.markup,
+            children: [],
+            token
+        };
+        (stack.length > 0 ? stack[stack.length - 1].children : root).push(block);
+
+        if (token.nesting === 1) {
+            if (CONTAINER_KINDS.includes(kind)) {
+                stack.push(block);
+            } else {
+                // Headings, paragraphs and tables are leaves; skip their inner tokens
+                skipUntil = { type: token.type.replace(/_open$/, '_close'), level: token.level };
+            }
+        }
+    }
+
+    return root;
+}
+
+function fillRawBlocks(blocks: MarkdownBlock[], lines: string[]): MarkdownBlock[] {
+    const result: MarkdownBlock[] = [];
+    let line = 0;
+
+    const addRaw = (end: number) => {
+        while (line < end) {
+            if (lines[line].trim() === '') {
+                line++;
+                continue;
+            }
+            const start = line;
+            while (line < end && lines[line].trim() !== '') {
+                line++;
+            }
+            result.push({ kind: 'raw', startLine: start, endLine: line, markup: '', children: [] });
+        }
+    };
+
+    for (const block of blocks) {
+        addRaw(block.startLine);
+        result.push(block);
+        line = Math.max(line, block.token?.map ? block.token.map[1] : block.endLine);
+    }
+    addRaw(lines.length);
+
+    return result;
+}
+
+function trimBlankLinesEnd(lines: string[], start: number, end: number): number {
+    let result = Math.min(end, lines.length);
+    while (result > start + 1 && lines[result - 1].trim() === '') {
+        result--;
+    }
+    return result;
+}
@@ -0,0 +1,166 @@
+/**
+ * Markdown Chunker
+ * Splits a document into heading-aware chunks under a token limit, for retrieval indexes
+ */
+
+import { FormatOptions, compactFormat } from './markdownFormatter';
+import { parseMarkdownBlocks, splitLines } from './markdownBlocks';
+import { HeadingAnchor, findHeadingAnchors } from './headingAnchors';
+import { findFrontMatter } from './frontMatter';
+import { countTokens } from './tokenCounter';
+
+export interface ChunkOptions {
+    /** Largest chunk to produce, in estimated tokens */
+    maxTokens: number;
+    /** Compact the text of each chunk with `compactFormat` */
+    compact?: boolean;
+    format?: FormatOptions;
+}
+
+export interface MarkdownChunk {
+    text: string;
+    tokenCount: number;
+    /** Heading texts from the top-level section down to the chunk's own; empty before the first heading */
+    breadcrumb: string[];
+    /** Viewer anchor of the chunk's heading, or an empty string before the first heading */
+    anchor: string;
+    /** First source line of the chunk (1-based) */
+    startLine: number;
+    /** Last source line of the chunk (1-based, inclusive) */
+    endLine: number;
+}
+
+interface Section {
+    heading: HeadingAnchor | null;
+    start: number;
+    /** Line of the next heading of any level */
+    bodyEnd: number;
+    /** Line of the next heading of the same or a higher level */
+    end: number;
+    children: Section[];
+}
+
+/**
+ * Splits markdown into chunks of at most `maxTokens`. A section is kept whole
+ * with its subsections when it fits; otherwise its own text is chunked at block
+ * boundaries and each subsection is chunked the same way. A single block larger
+ * than `maxTokens`, such as a long code block, becomes a chunk of its own.
+ */
+export function chunkMarkdown(markdown: string, options: ChunkOptions): MarkdownChunk[] {
+    const lines = splitLines(markdown);
+    const blockStarts = parseMarkdownBlocks(markdown)
+        .filter(block => block.kind !== 'frontMatter')
+        .map(block => block.startLine);
+    const chunks: MarkdownChunk[] = [];
+
+    const createChunk = (start: number, end: number, breadcrumb: string[], anchor: string): MarkdownChunk | null => {
+        while (start < end && lines[start].trim() === '') {
+            start++;
+        }
+        while (end > start && lines[end - 1].trim() === '') {
+            end--;
+        }
+        if (start === end) {
+            return null;
+        }
+
+        const source = lines.slice(start, end).join('\n');
+        const text = options.compact ? compactFormat(source, options.format).replace(/\n$/, '') : source;
+        return { text, tokenCount: countTokens(text), breadcrumb, anchor, startLine: start + 1, endLine: end };
+    };
+
+    // Blocks are added to a chunk until the next one would not fit; a heading
+    // always stays with the block after it
+    const splitAtBlocks = (start: number, end: number, breadcrumb: string[], anchor: string) => {
+        const boundaries = blockStarts.filter(line => line > start && line < end).slice(breadcrumb.length > 0 ? 1 : 0);
+        let chunkStart = start;
+        let pending: MarkdownChunk | null = null;
+
+        for (const boundary of [...boundaries, end]) {
+            const candidate = createChunk(chunkStart, boundary, breadcrumb, anchor);
+            if (pending && candidate && candidate.tokenCount > options.maxTokens) {
+                chunks.push(pending);
+                // The 1-based last line is the 0-based line after the chunk
+                chunkStart = pending.endLine;
+                pending = createChunk(chunkStart, boundary, breadcrumb, anchor);
+            } else {
+                pending = candidate;
+            }
+        }
+        if (pending) {
+            chunks.push(pending);
+        }
+    };
+
+    const visit = (section: Section, parents: string[]) => {
+        const breadcrumb = section.heading ? [...parents, section.heading.text] : [];
+        const anchor = section.heading?.slug ?? '';
+        const whole = createChunk(section.start, section.end, breadcrumb, anchor);
+        if (!whole) {
+            return;
+        }
+        if (whole.tokenCount <= options.maxTokens) {
+            chunks.push(whole);
+            return;
+        }
+
+        // A heading directly followed by a subheading is left to the breadcrumbs
+        const bodyStart = section.heading ? section.start + 1 : section.start;
+        if (lines.slice(bodyStart, section.bodyEnd).some(line => line.trim() !== '')) {
+            splitAtBlocks(section.start, section.bodyEnd, breadcrumb, anchor);
+        }
+        section.children.forEach(child => visit(child, breadcrumb));
+    };
+
+    buildSections(markdown, lines.length).forEach(section => visit(section, []));
+    return chunks;
+}
+
+/**
+ * Formats chunks as JSON Lines, one object per chunk, optionally tagged with the source file
+ */
+export function formatChunksAsJsonl(chunks: MarkdownChunk[], source?: string): string {
+    return chunks
+        .map(chunk => JSON.stringify({
+            ...(source !== undefined ? { source } : {}),
+            anchor: chunk.anchor,
+            breadcrumb: chunk.breadcrumb,
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            tokenCount: chunk.tokenCount,
+            text: chunk.text
+        }) + '\n')
+        .join('');
+}
+
+function buildSections(markdown: string, lineCount: number): Section[] {
+    const headings = findHeadingAnchors(markdown);
+    const bodyStart = findFrontMatter(markdown)?.endLine ?? 0;
+    const roots: Section[] = [{
+        heading: null,
+        start: bodyStart,
+        bodyEnd: headings[0]?.line ?? lineCount,
+        end: headings[0]?.line ?? lineCount,
+        children: []
+    }];
+    const stack: Section[] = [];
+
+    headings.forEach((heading, index) => {
+        const next = headings.slice(index + 1).find(other => other.level <= heading.level);
+        const section: Section = {
+            heading,
+            start: heading.line,
+            bodyEnd: headings[index + 1]?.line ?? lineCount,
+            end: next?.line ?? lineCount,
+            children: []
+        };
+
+        while (stack.length > 0 && stack[stack.length - 1].heading!.level >= heading.level) {
+            stack.pop();
+        }
+        (stack.length > 0 ? stack[stack.length - 1].children : roots).push(section);
+        stack.push(section);
+    });
+
+    return roots;
+}
@@ -0,0 +1,229 @@
+/**
+ * Markdown Equivalence
+ * Compares two markdown documents by their markdown-it structure, ignoring whitespace-only differences
+ */
+
+import Token from 'markdown-it/lib/token';
+import { parseTokens } from './markdownBlocks';
+import { findFrontMatter } from './frontMatter';
+
+export interface BlockDifference {
+    type: 'changed' | 'removed' | 'added';
+    /** Source line (0-based) of the block in the original document */
+    originalLine?: number;
+    /** Source line (0-based) of the block in the formatted document */
+    formattedLine?: number;
+    /** Short description of the block before the change */
+    before?: string;
+    /** Short description of the block after the change */
+    after?: string;
+}
+
+interface TopLevelBlock {
+    line: number;
+    signature: string;
+    label: string;
+}
+
+const BLOCK_LABELS: Record<string, string> = {
+    heading: 'heading',
+    paragraph: 'paragraph',
+    bullet: 'bullet list',
+    ordered: 'ordered list',
+    blockquote: 'blockquote',
+    fence: 'code block',
+    code: 'code block',
+    html: 'HTML block',
+    hr: 'horizontal rule',
+    table: 'table'
+};
+
+const PREVIEW_LENGTH = 40;
+
+/**
+ * Returns the top-level blocks whose rendered structure differs between the two documents.
+ * Blank lines, line wrapping, list looseness and marker characters are not differences.
+ */
+export function findSemanticDifferences(original: string, formatted: string): BlockDifference[] {
+    const before = collectTopLevelBlocks(parseTokens(original));
+    const after = collectTopLevelBlocks(parseTokens(formatted));
+    return [...diffFrontMatter(original, formatted), ...diffBlocks(before, after)];
+}
+
+/**
+ * Formats a difference for display, e.g. `Line 12: paragraph "Title" → heading "Title"`
+ */
+export function describeDifference(difference: BlockDifference): string {
+    switch (difference.type) {
+        case 'removed':
+            return `Line ${difference.originalLine! + 1}: ${difference.before} would be removed`;
+        case 'added':
+            return `Line ${difference.formattedLine! + 1}: ${difference.after} would be added`;
+        default:
+            return `Line ${difference.originalLine! + 1}: ${difference.before} → ${difference.after}`;
+    }
+}
+
+/**
+ * Front matter is not parsed as markdown, so any byte change to it is a difference
+ */
+function diffFrontMatter(original: string, formatted: string): BlockDifference[] {
+    const before = findFrontMatter(original)?.raw;
+    const after = findFrontMatter(formatted)?.raw;
+
+    if (before === after) {
+        return [];
+    } else if (before === undefined) {
+        return [{ type: 'added', formattedLine: 0, after: 'front matter' }];
+    } else if (after === undefined) {
+        return [{ type: 'removed', originalLine: 0, before: 'front matter' }];
+    }
+    return [{ type: 'changed', originalLine: 0, formattedLine: 0, before: 'front matter', after: 'edited front matter' }];
+}
+
+function collectTopLevelBlocks(tokens: Token[]): TopLevelBlock[] {
+    const blocks: TopLevelBlock[] = [];
+    let current: Token[] = [];
+
+    for (const token of tokens) {
+        current.push(token);
+        if (token.level === 0 && token.nesting !== 1) {
+            blocks.push(describeBlock(current));
+            current = [];
+        }
+    }
+
+    return blocks;
+}
+
+function describeBlock(tokens: Token[]): TopLevelBlock {
+    const opening = tokens[0];
+    const kind = opening.type.replace(/_(list_)?open$/, '').replace(/_block$/, '');
+    const inline = tokens.find(token => token.type === 'inline');
+    const text = inline ? normalizeInline(inline) : opening.content.trim();
+    const preview = text.length > PREVIEW_LENGTH ? `${text.substring(0, PREVIEW_LENGTH)}…` : text;
+    const name = kind === 'heading' ? `${opening.tag} heading` : (BLOCK_LABELS[kind] ?? kind);
+
+    return {
+        line: opening.map ? opening.map[0] : 0,
+        signature: tokens.map(tokenSignature).join('\n'),
+        label: preview ? `${name} "${preview.split('\n')[0]}"` : name
+    };
+}
+
+function tokenSignature(token: Token): string {
+    const attrs = (token.attrs ?? []).map(([name, value]) => `${name}=${value}`).join(' ');
+    let content: string;
+
+    if (token.type === 'inline') {
+        content = normalizeInline(token);
+    } else if (token.type === 'fence' || token.type === 'code_block' || token.type === 'html_block') {
+        content = token.content;
+    } else {
+        content = '';
+    }
+
+    // List item numbers other than the list's start attribute are not rendered
+    const info = token.type === 'list_item_open' ? '' : token.info.trim();
+    return [token.type, token.tag, info, attrs, content].join('|');
+}
+
+/**
+ * Flattens inline children to text and markers; soft breaks count as whitespace
+ */
+function normalizeInline(token: Token): string {
+    const parts = (token.children ?? []).map(child => {
+        switch (child.type) {
+            case 'text':
+                return child.content;
+            case 'softbreak':
+                return ' ';
+            case 'code_inline':
+            case 'html_inline':
+                return `<${child.type}:${child.content}>`;
+            default: {
+                const attrs = (child.attrs ?? []).map(([name, value]) => `${name}=${value}`).join(' ');
+                return `<${child.type}${attrs ? ' ' + attrs : ''}>`;
+            }
+        }
+    });
+
+    return parts.join('').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Longest-common-subsequence diff of block signatures; adjacent removals and
+ * additions are paired up as changes
+ */
+function diffBlocks(before: TopLevelBlock[], after: TopLevelBlock[]): BlockDifference[] {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix].signature === after[prefix].signature) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < before.length - prefix &&
+        suffix < after.length - prefix &&
+        before[before.length - 1 - suffix].signature === after[after.length - 1 - suffix].signature
+    ) {
+        suffix++;
+    }
+
+    const a = before.slice(prefix, before.length - suffix);
+    const b = after.slice(prefix, after.length - suffix);
+    if (a.length === 0 && b.length === 0) {
+        return [];
+    }
+
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i].signature === b[j].signature
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const differences: BlockDifference[] = [];
+    let removed: TopLevelBlock[] = [];
+    let added: TopLevelBlock[] = [];
+
+    const flush = () => {
+        const paired = Math.min(removed.length, added.length);
+        for (let k = 0; k < paired; k++) {
+            differences.push({
+                type: 'changed',
+                originalLine: removed[k].line,
+                formattedLine: added[k].line,
+                before: removed[k].label,
+                after: added[k].label
+            });
+        }
+        for (const block of removed.slice(paired)) {
+            differences.push({ type: 'removed', originalLine: block.line, before: block.label });
+        }
+        for (const block of added.slice(paired)) {
+            differences.push({ type: 'added', formattedLine: block.line, after: block.label });
+        }
+        removed = [];
+        added = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i].signature === b[j].signature) {
+            flush();
+            i++;
+            j++;
+        } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+            removed.push(a[i++]);
+        } else {
+            added.push(b[j++]);
+        }
+    }
+    flush();
+
+    return differences;
+}
@@ -3,24 +3,103 @@
  * Provides functions for converting markdown between compact (AI-optimized) and human-readable modes
  */
 
-export type MarkdownMode = 'compact' | 'human';
+import { MarkdownBlock, collectVerbatimLines, parseMarkdownBlocks, splitLines } from './markdownBlocks';
+import { findFrontMatter } from './frontMatter';
+import { TableStyle, formatTable } from './tableFormatter';
+import { StyleOptions, normalizeStyle } from './styleNormalizer';
+import { reflowParagraph } from './paragraphReflow';
+import { ReferencePlacement, convertToReferenceLinks, inlineReferenceLinks } from './linkReferences';
+
+/**
+ * Name of a formatting profile: the built-in 'compact' and 'human' modes or a user-defined profile
+ */
+export type MarkdownMode = string;
+
+export type BuiltInMode = 'compact' | 'human';
 
 export interface FormatOptions {
-    preserveCodeBlocks?: boolean;
-    preserveBlockquotes?: boolean;
     maxConsecutiveBlankLines?: number;
+    /** Opt-in style normalization applied before the layout */
+    style?: StyleOptions;
+    /** Column that profiles with `proseWrap: 'wrap'` reflow paragraphs to */
+    wrapColumn?: number;
+    /** Join soft-wrapped paragraph lines in profiles with `proseWrap: 'unwrap'` */
+    unwrapParagraphs?: boolean;
+    /** Move inline link destinations into reference definitions in profiles with `linkStyle: 'reference'` */
+    referenceLinks?: ReferencePlacement;
+    /** Inline single-use references and drop unused definitions in profiles with `linkStyle: 'inline'` */
+    inlineReferences?: boolean;
 }
 
-interface CodeBlock {
-    start: number;
-    end: number;
-    content: string;
+/**
+ * What a profile does with the soft line breaks inside paragraphs when reflow is enabled
+ */
+export type ProseWrap = 'wrap' | 'unwrap' | 'preserve';
+
+/**
+ * Which way a profile moves link destinations when the link options are enabled
+ */
+export type LinkStyle = 'reference' | 'inline' | 'preserve';
+
+/**
+ * Named set of blank-line rules applied between blocks, and the layout of tables and paragraphs
+ */
+export interface FormatProfile {
+    name: MarkdownMode;
+    description?: string;
+    blankLinesBeforeHeading: number;
+    blankLinesAfterHeading: number;
+    blankLinesBetweenListItems: number;
+    blankLinesAroundRules: number;
+    blankLinesAroundCode: number;
+    blankLinesBetweenBlocks: number;
+    maxConsecutiveBlankLines: number;
+    tableStyle: TableStyle;
+    proseWrap: ProseWrap;
+    linkStyle: LinkStyle;
 }
 
-interface Blockquote {
-    start: number;
-    end: number;
-    content: string;
+export const COMPACT_PROFILE: FormatProfile = {
+    name: 'compact',
+    description: 'AI-optimized, minimal whitespace',
+    blankLinesBeforeHeading: 1,
+    blankLinesAfterHeading: 0,
+    blankLinesBetweenListItems: 0,
+    blankLinesAroundRules: 0,
+    blankLinesAroundCode: 0,
+    blankLinesBetweenBlocks: 0,
+    maxConsecutiveBlankLines: 1,
+    tableStyle: 'minimal',
+    proseWrap: 'unwrap',
+    linkStyle: 'inline'
+};
+
+export const HUMAN_PROFILE: FormatProfile = {
+    name: 'human',
+    description: 'Readable, with proper spacing',
+    blankLinesBeforeHeading: 2,
+    blankLinesAfterHeading: 1,
+    blankLinesBetweenListItems: 1,
+    blankLinesAroundRules: 1,
+    blankLinesAroundCode: 1,
+    blankLinesBetweenBlocks: 1,
+    maxConsecutiveBlankLines: 2,
+    tableStyle: 'aligned',
+    proseWrap: 'wrap',
+    linkStyle: 'reference'
+};
+
+export const BUILT_IN_PROFILES: FormatProfile[] = [COMPACT_PROFILE, HUMAN_PROFILE];
+
+interface LayoutContext {
+    lines: string[];
+    verbatim: Set<number>;
+    /** Lines ending in a hard break made of trailing spaces, which must keep two of them */
+    hardBreaks: Set<number>;
+    spacing: FormatProfile;
+    /** Column to reflow paragraphs to (null joins them onto one line), or undefined to keep their lines */
+    reflowColumn?: number | null;
+    output: string[];
 }
 
 /**
@@ -29,342 +108,333 @@ interface Blockquote {
  * - Condenses list spacing
  * - Minimizes whitespace around headers
  * - Keeps code blocks compact
+ * - Strips table padding
  * - Removes trailing spaces
+ * - Joins soft-wrapped paragraph lines (with `unwrapParagraphs`)
+ * - Inlines single-use link references (with `inlineReferences`)
  */
 export function compactFormat(markdown: string, options: FormatOptions = {}): string {
-    const {
-        preserveCodeBlocks = true,
-        preserveBlockquotes = true,
-        maxConsecutiveBlankLines = 1
-    } = options;
+    return formatWithProfile(markdown, COMPACT_PROFILE, options);
+}
+
+/**
+ * Converts markdown to human-readable mode
+ * - Adds spacing between sections (2 blank lines)
+ * - Adds spacing in lists
+ * - Proper indentation
+ * - Aligns table columns
+ * - Wraps paragraphs at a column (with `wrapColumn`)
+ * - Moves link destinations into reference definitions (with `referenceLinks`)
+ * - Better visual hierarchy
+ */
+export function humanFormat(markdown: string, options: FormatOptions = {}): string {
+    return formatWithProfile(markdown, HUMAN_PROFILE, options);
+}
 
+/**
+ * Converts markdown using the blank-line rules of a formatting profile
+ */
+export function formatWithProfile(markdown: string, profile: FormatProfile, options: FormatOptions = {}): string {
     if (!markdown || markdown.trim().length === 0) {
         return markdown;
     }
 
     try {
-        let result = markdown;
-
-        // Extract and preserve code blocks
-        const codeBlocks: CodeBlock[] = [];
-        const codeBlockPlaceholder = (index: number) => `__CODE_BLOCK_${index}__`;
-        
-        if (preserveCodeBlocks) {
-            const codeBlockRegex = /```[\s\S]*?```|`[^`\n]+`/g;
-            let match;
-            let index = 0;
-            
-            while ((match = codeBlockRegex.exec(result)) !== null) {
-                codeBlocks.push({
-                    start: match.index,
-                    end: match.index + match[0].length,
-                    content: match[0]
-                });
-                index++;
-            }
-
-            // Replace code blocks with placeholders (in reverse to maintain indices)
-            for (let i = codeBlocks.length - 1; i >= 0; i--) {
-                result = result.substring(0, codeBlocks[i].start) +
-                         codeBlockPlaceholder(i) +
-                         result.substring(codeBlocks[i].end);
-            }
-        }
+        const normalized = applyLinkStyle(options.style ? normalizeStyle(markdown, options.style) : markdown, profile, options);
+        return layoutMarkdown(normalized, {
+            ...profile,
+            maxConsecutiveBlankLines: options.maxConsecutiveBlankLines ?? profile.maxConsecutiveBlankLines
+        }, reflowColumn(profile, options));
+    } catch (error) {
+        console.error(`Error formatting with ${profile.name} profile:`, error);
+        return markdown;
+    }
+}
 
-        // Extract and preserve blockquotes
-        const blockquotes: Blockquote[] = [];
-        const blockquotePlaceholder = (index: number) => `__BLOCKQUOTE_${index}__`;
-        
-        if (preserveBlockquotes) {
-            const lines = result.split('\n');
-            let inBlockquote = false;
-            let blockquoteStart = -1;
-            let blockquoteLines: string[] = [];
-            let index = 0;
-
-            for (let i = 0; i < lines.length; i++) {
-                const line = lines[i];
-                const isQuoteLine = /^\s*>/.test(line);
-
-                if (isQuoteLine) {
-                    if (!inBlockquote) {
-                        inBlockquote = true;
-                        blockquoteStart = i;
-                        blockquoteLines = [];
-                    }
-                    blockquoteLines.push(line);
-                } else if (inBlockquote && line.trim() === '') {
-                    blockquoteLines.push(line);
-                } else if (inBlockquote) {
-                    blockquotes.push({
-                        start: blockquoteStart,
-                        end: i,
-                        content: blockquoteLines.join('\n')
-                    });
-                    lines.splice(blockquoteStart, i - blockquoteStart, blockquotePlaceholder(index));
-                    i = blockquoteStart;
-                    index++;
-                    inBlockquote = false;
-                    blockquoteLines = [];
-                }
-            }
+function applyLinkStyle(markdown: string, profile: FormatProfile, options: FormatOptions): string {
+    if (profile.linkStyle === 'reference' && options.referenceLinks) {
+        return convertToReferenceLinks(markdown, options.referenceLinks);
+    }
+    return profile.linkStyle === 'inline' && options.inlineReferences ? inlineReferenceLinks(markdown) : markdown;
+}
 
-            if (inBlockquote) {
-                blockquotes.push({
-                    start: blockquoteStart,
-                    end: lines.length,
-                    content: blockquoteLines.join('\n')
-                });
-                lines.splice(blockquoteStart, lines.length - blockquoteStart, blockquotePlaceholder(index));
-            }
+function reflowColumn(profile: FormatProfile, options: FormatOptions): number | null | undefined {
+    if (profile.proseWrap === 'wrap' && options.wrapColumn && options.wrapColumn > 0) {
+        return options.wrapColumn;
+    }
+    return profile.proseWrap === 'unwrap' && options.unwrapParagraphs ? null : undefined;
+}
 
-            result = lines.join('\n');
+/**
+ * Re-emits the source lines of every block unchanged (apart from trailing
+ * whitespace outside code and HTML, top-level tables laid out in the profile's
+ * table style, and paragraphs reflowed on request) and decides the blank lines between blocks
+ */
+function layoutMarkdown(markdown: string, spacing: FormatProfile, reflowColumn?: number | null): string {
+    const eol = markdown.includes('\r\n') ? '\r\n' : '\n';
+    const blocks = parseMarkdownBlocks(markdown);
+    const lines = splitLines(markdown);
+    const context: LayoutContext = {
+        lines,
+        verbatim: collectVerbatimLines(blocks),
+        hardBreaks: collectHardBreakLines(blocks, lines),
+        spacing,
+        reflowColumn,
+        output: []
+    };
+
+    blocks.forEach((block, index) => {
+        if (index > 0) {
+            pushBlankLines(context, blockGap(context, blocks[index - 1], block));
         }
-
-        // Remove trailing spaces from each line
-        result = result.split('\n').map(line => line.trimEnd()).join('\n');
-
-        // Minimize whitespace around headers (max 1 blank line before, 0 after)
-        result = result.replace(/\n{2,}(#{1,6}\s+)/g, '\n\n$1');
-        result = result.replace(/(#{1,6}\s+[^\n]+)\n{2,}/g, '$1\n');
-
-        // Condense list spacing (remove blank lines between list items)
-        result = result.replace(/(\n\s*[-*+]\s+[^\n]+)\n{2,}(\s*[-*+]\s+)/g, '$1\n$2');
-        result = result.replace(/(\n\s*\d+\.\s+[^\n]+)\n{2,}(\s*\d+\.\s+)/g, '$1\n$2');
-
-        // Remove blank lines inside lists
-        const listItemRegex = /^(\s*)([-*+]|\d+\.)\s+/;
-        const resultLines = result.split('\n');
-        const compactedLines: string[] = [];
-        let inList = false;
-
-        for (let i = 0; i < resultLines.length; i++) {
-            const line = resultLines[i];
-            const isListItem = listItemRegex.test(line);
-            const isBlankLine = line.trim() === '';
-
-            if (isListItem) {
-                inList = true;
-                compactedLines.push(line);
-            } else if (inList && isBlankLine) {
-                // Check if next line is also a list item
-                const nextLine = i + 1 < resultLines.length ? resultLines[i + 1] : '';
-                if (!listItemRegex.test(nextLine)) {
-                    inList = false;
-                    compactedLines.push(line);
-                }
-                // Skip blank line between list items
-            } else {
-                if (!isListItem && !isBlankLine) {
-                    inList = false;
-                }
-                compactedLines.push(line);
-            }
+        if (block.kind === 'list') {
+            emitList(context, block);
+        } else if (block.kind === 'table') {
+            context.output.push(...formatTable(context.lines.slice(block.startLine, block.endLine), spacing.tableStyle));
+        } else if (block.kind === 'paragraph' && context.reflowColumn !== undefined) {
+            emitParagraph(context, block, INDENT_REGEX);
+        } else {
+            emitLines(context, block.startLine, block.endLine);
         }
-        result = compactedLines.join('\n');
+    });
 
-        // Limit consecutive blank lines
-        const blankLineRegex = new RegExp(`\\n{${maxConsecutiveBlankLines + 2},}`, 'g');
-        result = result.replace(blankLineRegex, '\n'.repeat(maxConsecutiveBlankLines + 1));
+    return context.output.join(eol) + eol;
+}
 
-        // Remove leading/trailing blank lines from document
-        result = result.replace(/^\n+/, '').replace(/\n+$/, '\n');
+function emitList(context: LayoutContext, list: MarkdownBlock): void {
+    const gap = Math.min(context.spacing.blankLinesBetweenListItems, context.spacing.maxConsecutiveBlankLines);
 
-        // Restore blockquotes
-        if (preserveBlockquotes) {
-            for (let i = 0; i < blockquotes.length; i++) {
-                result = result.replace(blockquotePlaceholder(i), blockquotes[i].content);
-            }
+    list.children.forEach((item, index) => {
+        if (index > 0) {
+            pushBlankLines(context, gap);
         }
 
-        // Restore code blocks
-        if (preserveCodeBlocks) {
-            for (let i = 0; i < codeBlocks.length; i++) {
-                result = result.replace(codeBlockPlaceholder(i), codeBlocks[i].content);
+        // Item content stays as written; only nested lists are re-spaced and paragraphs reflowed
+        let line = item.startLine;
+        for (const child of item.children) {
+            if (child.kind === 'list') {
+                emitLines(context, line, child.startLine);
+                emitList(context, child);
+                line = child.endLine;
+            } else if (child.kind === 'paragraph' && context.reflowColumn !== undefined) {
+                emitLines(context, line, child.startLine);
+                emitParagraph(context, child, child.startLine === item.startLine ? LIST_MARKER_REGEX : INDENT_REGEX);
+                line = child.endLine;
             }
         }
-
-        return result;
-    } catch (error) {
-        console.error('Error in compactFormat:', error);
-        return markdown;
-    }
+        emitLines(context, line, item.endLine);
+    });
 }
 
+// Marker of a list item whose first line is a paragraph, with the spaces up to the content column
+const LIST_MARKER_REGEX = /^ *([-*+]|\d{1,9}[.)]) {1,4}(?=\S)/;
+const INDENT_REGEX = /^ */;
+
 /**
- * Converts markdown to human-readable mode
- * - Adds spacing between sections (2 blank lines)
- * - Adds spacing in lists
- * - Proper indentation
- * - Better visual hierarchy
+ * Emits a paragraph reflowed to the layout's column. The first line keeps the
+ * prefix matched by `prefixRegex` (its indentation, or a list item marker) and the
+ * other lines are indented to the end of that prefix. Paragraphs indented with
+ * tabs are emitted as written.
  */
-export function humanFormat(markdown: string, options: FormatOptions = {}): string {
-    const {
-        preserveCodeBlocks = true,
-        preserveBlockquotes = true
-    } = options;
+function emitParagraph(context: LayoutContext, paragraph: MarkdownBlock, prefixRegex: RegExp): void {
+    const lines = context.lines.slice(paragraph.startLine, paragraph.endLine);
+    const prefix = prefixRegex.exec(lines[0])?.[0];
 
-    if (!markdown || markdown.trim().length === 0) {
-        return markdown;
+    if (prefix === undefined || lines.some(line => /^ *\t/.test(line))) {
+        emitLines(context, paragraph.startLine, paragraph.endLine);
+        return;
     }
 
-    try {
-        let result = markdown;
+    lines[0] = lines[0].substring(prefix.length);
+    context.output.push(...reflowParagraph(lines, {
+        firstPrefix: prefix,
+        indent: ' '.repeat(prefix.length),
+        column: context.reflowColumn ?? null
+    }));
+}
 
-        // Extract and preserve code blocks
-        const codeBlocks: CodeBlock[] = [];
-        const codeBlockPlaceholder = (index: number) => `__CODE_BLOCK_${index}__`;
-        
-        if (preserveCodeBlocks) {
-            const codeBlockRegex = /```[\s\S]*?```|`[^`\n]+`/g;
-            let match;
-            let index = 0;
-            
-            while ((match = codeBlockRegex.exec(result)) !== null) {
-                codeBlocks.push({
-                    start: match.index,
-                    end: match.index + match[0].length,
-                    content: match[0]
-                });
-                index++;
-            }
+function emitLines(context: LayoutContext, start: number, end: number): void {
+    // Blank lines inside a container separate its blocks, so never drop the last one
+    const maxBlankLines = Math.max(1, context.spacing.maxConsecutiveBlankLines);
+    let blankLines = 0;
 
-            // Replace code blocks with placeholders (in reverse to maintain indices)
-            for (let i = codeBlocks.length - 1; i >= 0; i--) {
-                result = result.substring(0, codeBlocks[i].start) +
-                         codeBlockPlaceholder(i) +
-                         result.substring(codeBlocks[i].end);
-            }
+    for (let line = start; line < end; line++) {
+        if (context.verbatim.has(line)) {
+            context.output.push(context.lines[line]);
+            blankLines = 0;
+            continue;
         }
 
-        // Extract and preserve blockquotes
-        const blockquotes: Blockquote[] = [];
-        const blockquotePlaceholder = (index: number) => `__BLOCKQUOTE_${index}__`;
-        
-        if (preserveBlockquotes) {
-            const lines = result.split('\n');
-            let inBlockquote = false;
-            let blockquoteStart = -1;
-            let blockquoteLines: string[] = [];
-            let index = 0;
-
-            for (let i = 0; i < lines.length; i++) {
-                const line = lines[i];
-                const isQuoteLine = /^\s*>/.test(line);
-
-                if (isQuoteLine) {
-                    if (!inBlockquote) {
-                        inBlockquote = true;
-                        blockquoteStart = i;
-                        blockquoteLines = [];
-                    }
-                    blockquoteLines.push(line);
-                } else if (inBlockquote && line.trim() === '') {
-                    blockquoteLines.push(line);
-                } else if (inBlockquote) {
-                    blockquotes.push({
-                        start: blockquoteStart,
-                        end: i,
-                        content: blockquoteLines.join('\n')
-                    });
-                    lines.splice(blockquoteStart, i - blockquoteStart, blockquotePlaceholder(index));
-                    i = blockquoteStart;
-                    index++;
-                    inBlockquote = false;
-                    blockquoteLines = [];
-                }
+        // Trailing spaces are dropped unless they make a hard line break
+        const text = context.lines[line].trimEnd() + (context.hardBreaks.has(line) ? '  ' : '');
+        if (text.trim() === '') {
+            blankLines++;
+            if (blankLines > maxBlankLines) {
+                continue;
             }
+            context.output.push('');
+        } else {
+            blankLines = 0;
+            context.output.push(text);
+        }
+    }
+}
 
-            if (inBlockquote) {
-                blockquotes.push({
-                    start: blockquoteStart,
-                    end: lines.length,
-                    content: blockquoteLines.join('\n')
-                });
-                lines.splice(blockquoteStart, lines.length - blockquoteStart, blockquotePlaceholder(index));
+/**
+ * Lines of paragraphs, at any depth, that end in two or more spaces and are not
+ * the last line of their paragraph
+ */
+function collectHardBreakLines(blocks: MarkdownBlock[], lines: string[]): Set<number> {
+    const hardBreaks = new Set<number>();
+
+    const visit = (block: MarkdownBlock) => {
+        if (block.kind === 'paragraph') {
+            for (let line = block.startLine; line < block.endLine - 1; line++) {
+                if (/ {2,}$/.test(lines[line])) {
+                    hardBreaks.add(line);
+                }
             }
-
-            result = lines.join('\n');
         }
+        block.children.forEach(visit);
+    };
+    blocks.forEach(visit);
 
-        // Remove trailing spaces from each line
-        result = result.split('\n').map(line => line.trimEnd()).join('\n');
+    return hardBreaks;
+}
 
-        // First, normalize to single spacing
-        result = result.replace(/\n{3,}/g, '\n\n');
+function pushBlankLines(context: LayoutContext, count: number): void {
+    for (let i = 0; i < count; i++) {
+        context.output.push('');
+    }
+}
 
-        // Add 2 blank lines before headers (except at document start)
-        result = result.replace(/([^\n])\n+(#{1,6}\s+)/g, '$1\n\n\n$2');
+function blockGap(context: LayoutContext, prev: MarkdownBlock, next: MarkdownBlock): number {
+    const { spacing } = context;
+    let target: number;
+
+    if (prev.kind === 'frontMatter') {
+        target = spacing.blankLinesBetweenBlocks;
+    } else if (next.kind === 'heading') {
+        target = spacing.blankLinesBeforeHeading;
+    } else if (prev.kind === 'heading') {
+        target = spacing.blankLinesAfterHeading;
+    } else if (prev.kind === 'hr' || next.kind === 'hr') {
+        target = spacing.blankLinesAroundRules;
+    } else if (isCodeBlock(prev) || isCodeBlock(next)) {
+        target = spacing.blankLinesAroundCode;
+    } else {
+        target = spacing.blankLinesBetweenBlocks;
+    }
 
-        // Add 1 blank line after headers
-        result = result.replace(/(#{1,6}\s+[^\n]+)(\n)([^\n#])/g, '$1\n\n$3');
+    // Blocks that were already adjacent in the source stay safe at their original distance
+    const required = Math.min(requiredGap(context, prev, next), next.startLine - prev.endLine);
+    return Math.max(required, Math.min(target, spacing.maxConsecutiveBlankLines));
+}
 
-        // Add blank lines between list items for better readability
-        const listItemRegex = /^(\s*)([-*+]|\d+\.)\s+/;
-        const resultLines = result.split('\n');
-        const spacedLines: string[] = [];
-        let prevWasListItem = false;
+/**
+ * Smallest number of blank lines that keeps two adjacent blocks parsing as they did.
+ * Without a blank line, paragraphs absorb following lines (including lazy continuation
+ * of lists and blockquotes), '---' turns a paragraph into a setext heading, and HTML
+ * blocks, tables and indented code only end at a blank line.
+ */
+function requiredGap(context: LayoutContext, prev: MarkdownBlock, next: MarkdownBlock): number {
+    if (['html', 'table', 'code', 'raw'].includes(prev.kind) || next.kind === 'raw') {
+        return 1;
+    }
 
-        for (let i = 0; i < resultLines.length; i++) {
-            const line = resultLines[i];
-            const isListItem = listItemRegex.test(line);
+    if (prev.kind === 'heading' || prev.kind === 'hr' || prev.kind === 'fence' || prev.kind === 'frontMatter') {
+        return 0;
+    }
 
-            if (isListItem && prevWasListItem) {
-                // Add blank line between list items
-                if (spacedLines[spacedLines.length - 1]?.trim() !== '') {
-                    spacedLines.push('');
-                }
-            }
+    if ((next.kind === 'heading' && next.markup === '#') || next.kind === 'fence') {
+        return 0;
+    }
 
-            spacedLines.push(line);
-            prevWasListItem = isListItem;
-        }
-        result = spacedLines.join('\n');
+    if (next.kind === 'hr' && next.markup[0] !== '-') {
+        return 0;
+    }
 
-        // Add spacing around horizontal rules
-        result = result.replace(/([^\n])\n*([-*_]{3,})\n*/g, '$1\n\n$2\n\n');
+    if (prev.kind === 'paragraph' && next.kind === 'blockquote') {
+        return 0;
+    }
 
-        // Add blank lines between paragraphs and other block elements
-        result = result.replace(/([^\n])\n([^\n#\-*+>`\s])/g, '$1\n\n$2');
+    if (prev.kind === 'paragraph' && next.kind === 'list' && canInterruptParagraph(context.lines[next.startLine])) {
+        return 0;
+    }
 
-        // Clean up excessive blank lines (max 2)
-        result = result.replace(/\n{4,}/g, '\n\n\n');
+    return 1;
+}
 
-        // Ensure document ends with single newline
-        result = result.replace(/\n*$/, '\n');
+function isCodeBlock(block: MarkdownBlock): boolean {
+    return block.kind === 'fence' || block.kind === 'code';
+}
 
-        // Restore blockquotes
-        if (preserveBlockquotes) {
-            for (let i = 0; i < blockquotes.length; i++) {
-                result = result.replace(blockquotePlaceholder(i), blockquotes[i].content);
-            }
-        }
+/**
+ * Only bullet lists and ordered lists starting at 1 with a non-empty first item can interrupt a paragraph
+ */
+function canInterruptParagraph(line: string): boolean {
+    return /^ {0,3}([-*+]|1[.)])[ \t]+\S/.test(line);
+}
 
-        // Restore code blocks
-        if (preserveCodeBlocks) {
-            for (let i = 0; i < codeBlocks.length; i++) {
-                result = result.replace(codeBlockPlaceholder(i), codeBlocks[i].content);
-            }
-        }
+/**
+ * Layout measurements that mode detection is based on
+ */
+export interface ModeMetrics {
+    blankLineRatio: number;
+    maxConsecutiveBlankLines: number;
+    /** Average blank lines after a heading */
+    avgHeaderSpacing: number;
+    /** Average blank lines between items of the last list */
+    avgListSpacing: number;
+}
 
-        return result;
-    } catch (error) {
-        console.error('Error in humanFormat:', error);
-        return markdown;
-    }
+export interface ModeDetection {
+    /** Mode with the higher score; compact when the scores tie */
+    mode: BuiltInMode;
+    /** 0 when the scores tie, 1 when every metric points to the same mode */
+    confidence: number;
+    compactScore: number;
+    humanScore: number;
+    metrics: ModeMetrics;
 }
 
+const MAX_DETECTION_SCORE = 6;
+
 /**
  * Detects which mode a markdown document is likely in
  * Returns 'compact', 'human', or null if unable to determine
  */
-export function detectCurrentMode(markdown: string): MarkdownMode | null {
-    if (!markdown || markdown.trim().length === 0) {
+export function detectCurrentMode(markdown: string): BuiltInMode | null {
+    return analyzeMode(markdown)?.mode ?? null;
+}
+
+/**
+ * Describes detection metrics for display, e.g. in tooltips
+ */
+export function describeModeMetrics(metrics: ModeMetrics): string {
+    return [
+        `${Math.round(metrics.blankLineRatio * 100)}% blank lines`,
+        `up to ${metrics.maxConsecutiveBlankLines} in a row`,
+        `${metrics.avgHeaderSpacing.toFixed(1)} after headings`,
+        `${metrics.avgListSpacing.toFixed(1)} between list items`
+    ].join(', ');
+}
+
+/**
+ * Scores a markdown document against the compact and human layouts.
+ * Returns null for empty documents or if the document cannot be analyzed.
+ */
+export function analyzeMode(markdown: string): ModeDetection | null {
+    // Front matter layout says nothing about the mode of the document body
+    const frontMatter = markdown ? findFrontMatter(markdown) : null;
+    const body = frontMatter ? markdown.substring(frontMatter.raw.length).replace(/^(\r?\n)+/, '') : markdown;
+
+    if (!body || body.trim().length === 0) {
         return null;
     }
 
     try {
-        const lines = markdown.split('\n');
+        const lines = body.split('\n');
         let blankLineCount = 0;
         let totalLines = 0;
         let consecutiveBlankLines = 0;
@@ -463,27 +533,27 @@ export function detectCurrentMode(markdown: string): MarkdownMode | null {
             (avgHeaderSpacing > 0.7 ? 1 : 0) +
             (avgListSpacing > 0.5 ? 1 : 0);
 
-        if (compactScore > humanScore) {
-            return 'compact';
-        } else if (humanScore > compactScore) {
-            return 'human';
-        } else {
+        return {
             // Default to compact if unclear
-            return 'compact';
-        }
+            mode: humanScore > compactScore ? 'human' : 'compact',
+            confidence: Math.abs(compactScore - humanScore) / MAX_DETECTION_SCORE,
+            compactScore,
+            humanScore,
+            metrics: { blankLineRatio, maxConsecutiveBlankLines, avgHeaderSpacing, avgListSpacing }
+        };
     } catch (error) {
-        console.error('Error in detectCurrentMode:', error);
+        console.error('Error in analyzeMode:', error);
         return null;
     }
 }
 
 /**
- * Formats markdown based on the target mode
+ * Formats markdown based on the target mode or profile.
+ * Mode names other than the built-in ones must be passed as a resolved profile.
  */
-export function formatMarkdown(markdown: string, mode: MarkdownMode, options?: FormatOptions): string {
-    if (mode === 'compact') {
-        return compactFormat(markdown, options);
-    } else {
-        return humanFormat(markdown, options);
+export function formatMarkdown(markdown: string, mode: MarkdownMode | FormatProfile, options?: FormatOptions): string {
+    if (typeof mode !== 'string') {
+        return formatWithProfile(markdown, mode, options);
     }
+    return mode === 'human' ? humanFormat(markdown, options) : compactFormat(markdown, options);
 }
@@ -3,6 +3,16 @@ import MarkdownIt from 'markdown-it';
 import markdownItAnchor from 'markdown-it-anchor';
 import markdownItTOC from 'markdown-it-table-of-contents';
 import { ModeManager } from './modeManager';
+import { FrontMatter, findFrontMatter, maskFrontMatter, parseFrontMatterFields } from './frontMatter';
+import { highlightCode, parseFenceInfo } from './syntaxHighlighter';
+
+interface RenderEnv {
+    /** Number of lines added in front of the document before rendering */
+    lineOffset?: number;
+}
+
+// Editor scrolls this soon after the preview scrolled the editor are echoes, not the user
+const SCROLL_ECHO_MS = 200;
 
 export class MarkdownViewer implements vscode.Disposable {
     private panels: Map<string, vscode.WebviewPanel> = new Map();
@@ -10,7 +20,11 @@ export class MarkdownViewer implements vscode.Disposable {
     private modeManager: ModeManager;
     private md: MarkdownIt;
     private updateTimeouts: Map<string, NodeJS.Timeout> = new Map();
+    // Panels whose HTML shell is loaded; later updates only send the rendered body
+    private loadedPanels: WeakSet<vscode.WebviewPanel> = new WeakSet();
     private disposables: vscode.Disposable[] = [];
+    // When each document's editors were last scrolled by its preview, so that scroll is not sent back
+    private previewScrollTimes: Map<string, number> = new Map();
 
     constructor(context: vscode.ExtensionContext, modeManager: ModeManager) {
         this.context = context;
@@ -22,8 +36,10 @@ export class MarkdownViewer implements vscode.Disposable {
             linkify: true,
             typographer: true,
             breaks: true,
-            highlight: (str: string, lang: string) => {
-                return `<pre class="hljs"><code class="language-${lang}">${this.escapeHtml(str)}</code></pre>`;
+            highlight: (str: string, lang: string, attrs: string) => {
+                // markdown-it splits the info string at the first space; `ts{1,3}` arrives whole as lang
+                const { language, highlightedLines } = parseFenceInfo(`${lang} ${attrs}`);
+                return `<pre class="hljs"><code class="language-${this.escapeHtml(language)}">${highlightCode(str, language, highlightedLines)}</code></pre>`;
             }
         });
 
@@ -42,6 +58,102 @@ export class MarkdownViewer implements vscode.Disposable {
             containerClass: 'table-of-contents',
             listType: 'ul'
         });
+
+        this.addSourceLines();
+
+        this.disposables.push(
+            vscode.window.onDidChangeTextEditorVisibleRanges(event => {
+                const uri = event.textEditor.document.uri.toString();
+                if (event.visibleRanges.length > 0 && Date.now() - (this.previewScrollTimes.get(uri) ?? 0) > SCROLL_ECHO_MS) {
+                    this.scrollPreview(event.textEditor.document, event.visibleRanges[0].start.line, false);
+                }
+            }),
+            vscode.window.onDidChangeTextEditorSelection(event => {
+                // Selections set by commands (formatting, undo) do not move the preview
+                if (event.kind === vscode.TextEditorSelectionChangeKind.Keyboard || event.kind === vscode.TextEditorSelectionChangeKind.Mouse) {
+                    this.scrollPreview(event.textEditor.document, event.selections[0].active.line, true);
+                }
+            })
+        );
+    }
+
+    /**
+     * Tags rendered blocks with the source lines they come from: `data-line` is
+     * the first line and `data-line-end` the line after the block
+     */
+    private addSourceLines(): void {
+        this.md.core.ruler.push('angel_source_lines', state => {
+            // Lines added in front of the document, such as the TOC marker, are not part of the source
+            const offset = (state.env as RenderEnv).lineOffset ?? 0;
+            for (const token of state.tokens) {
+                if (token.map && token.nesting !== -1 && token.map[0] >= offset) {
+                    token.attrSet('data-line', String(token.map[0] - offset));
+                    token.attrSet('data-line-end', String(token.map[1] - offset));
+                }
+            }
+        });
+
+        // Highlighted fences are returned as written, without the token's attributes
+        const renderFence = this.md.renderer.rules.fence!;
+        this.md.renderer.rules.fence = (tokens, index, options, env, self) => {
+            const html = renderFence(tokens, index, options, env, self);
+            const line = tokens[index].attrGet('data-line');
+            const end = tokens[index].attrGet('data-line-end');
+            return line !== null ? html.replace(/^<pre(?![^>]*data-line)/, `<pre data-line="${line}" data-line-end="${end}"`) : html;
+        };
+    }
+
+    /**
+     * Opens the source of the active preview at a heading chosen from its TOC context menu
+     */
+    public async goToHeadingInSource(target: { line?: number; endLine?: number }): Promise<void> {
+        const active = [...this.panels.entries()].find(([, panel]) => panel.active);
+        if (active && typeof target.line === 'number') {
+            await this.revealSource(active[0], target.line, target.endLine);
+        }
+    }
+
+    /**
+     * Shows the source document next to the preview with the given lines selected
+     */
+    private async revealSource(uri: string, line: number, endLine?: number): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+        const start = Math.min(Math.max(0, line), document.lineCount - 1);
+        let end = Math.min(endLine ?? start + 1, document.lineCount);
+        // Blocks such as lists end after their trailing blank lines
+        while (end > start + 1 && document.lineAt(end - 1).isEmptyOrWhitespace) {
+            end--;
+        }
+
+        const selection = new vscode.Selection(start, 0, end - 1, document.lineAt(end - 1).text.length);
+        const visible = vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === uri);
+        // Showing the selection scrolls the editor; that is not sent back to the preview
+        this.previewScrollTimes.set(uri, Date.now());
+        await vscode.window.showTextDocument(document, {
+            viewColumn: visible?.viewColumn ?? vscode.ViewColumn.One,
+            selection
+        });
+    }
+
+    private scrollPreview(document: vscode.TextDocument, line: number, onlyIfHidden: boolean): void {
+        const panel = this.panels.get(document.uri.toString());
+        if (panel && vscode.workspace.getConfiguration('markdown-angel.preview').get<boolean>('scrollPreviewWithEditor', true)) {
+            panel.webview.postMessage({ command: 'scrollToLine', line, onlyIfHidden });
+        }
+    }
+
+    private scrollEditors(uri: string, line: number): void {
+        if (!vscode.workspace.getConfiguration('markdown-angel.preview').get<boolean>('scrollEditorWithPreview', true)) {
+            return;
+        }
+
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document.uri.toString() === uri) {
+                this.previewScrollTimes.set(uri, Date.now());
+                const position = new vscode.Position(Math.max(0, Math.floor(line)), 0);
+                editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop);
+            }
+        }
     }
 
     public async showPreview(document: vscode.TextDocument): Promise<void> {
@@ -72,6 +184,7 @@ export class MarkdownViewer implements vscode.Disposable {
             // Set up event handlers for this panel
             panel.onDidDispose(() => {
                 this.panels.delete(uri);
+                this.previewScrollTimes.delete(uri);
                 const timeout = this.updateTimeouts.get(uri);
                 if (timeout) {
                     clearTimeout(timeout);
@@ -86,6 +199,22 @@ export class MarkdownViewer implements vscode.Disposable {
                         case 'scrollToTop':
                             // Handle scroll to top if needed
                             break;
+                        case 'ready': {
+                            // Updates posted while the shell was loading are lost, so send the latest body
+                            const current = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri);
+                            if (current && panel) {
+                                this.updatePanel(current, panel);
+                            }
+                            break;
+                        }
+                        case 'didScroll':
+                            this.scrollEditors(uri, message.line);
+                            break;
+                        case 'revealSource':
+                            this.revealSource(uri, message.line, message.endLine).catch(error => {
+                                console.error('[Markdown Angel] Error revealing source:', error);
+                            });
+                            break;
                         case 'alert':
                             vscode.window.showErrorMessage(message.text);
                             break;
@@ -143,7 +272,13 @@ export class MarkdownViewer implements vscode.Disposable {
     private updatePanel(document: vscode.TextDocument, panel: vscode.WebviewPanel): void {
         try {
             panel.title = `Preview: ${this.getFileName(document)}`;
-            panel.webview.html = this.getHtmlForWebview(document, panel.webview);
+            if (this.loadedPanels.has(panel)) {
+                // Replacing the HTML would reload the page, losing scroll position and TOC state
+                panel.webview.postMessage({ command: 'update', html: this.renderBody(document) });
+            } else {
+                panel.webview.html = this.getHtmlForWebview(document, panel.webview);
+                this.loadedPanels.add(panel);
+            }
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to update markdown preview: ${error}`);
         }
@@ -154,17 +289,30 @@ export class MarkdownViewer implements vscode.Disposable {
         return parts[parts.length - 1] || 'Untitled';
     }
 
-    private getHtmlForWebview(document: vscode.TextDocument, webview: vscode.Webview): string {
-        const content = document.getText();
+    /**
+     * Renders the document for the content area: the front matter panel, then the markdown
+     */
+    private renderBody(document: vscode.TextDocument): string {
+        const text = document.getText();
+        const frontMatter = findFrontMatter(text);
+        // Render the body only; the front matter is shown as a metadata panel instead
+        const content = maskFrontMatter(text);
+        const frontMatterHtml = frontMatter ? this.renderFrontMatter(frontMatter) : '';
         
         // Add TOC marker at the beginning if not present
         let markdownContent = content;
+        const env: RenderEnv = {};
         if (!content.includes('[[toc]]') && !content.includes('[TOC]')) {
             // Auto-generate TOC at the beginning
             markdownContent = '[[toc]]\n\n' + content;
+            env.lineOffset = 2;
         }
 
-        const renderedContent = this.md.render(markdownContent);
+        return frontMatterHtml + this.md.render(markdownContent, env);
+    }
+
+    private getHtmlForWebview(document: vscode.TextDocument, webview: vscode.Webview): string {
+        const renderedContent = this.renderBody(document);
 
         // Use a nonce to only allow specific scripts to run
         const nonce = this.getNonce();
@@ -405,6 +553,28 @@ export class MarkdownViewer implements vscode.Disposable {
             border: 0;
         }
 
+        .front-matter {
+            margin-bottom: 16px;
+            padding: 8px 12px;
+            font-size: 90%;
+            background-color: var(--vscode-textCodeBlock-background);
+            border-radius: 6px;
+        }
+
+        .front-matter summary {
+            cursor: pointer;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .front-matter table {
+            margin: 8px 0 0;
+        }
+
+        .front-matter td {
+            vertical-align: top;
+            white-space: pre-wrap;
+        }
+
         .content table {
             border-spacing: 0;
             border-collapse: collapse;
@@ -506,28 +676,107 @@ export class MarkdownViewer implements vscode.Disposable {
             scroll-behavior: smooth;
         }
 
-        /* Syntax highlighting placeholders */
+        /* Syntax highlighting, colored for the kind of the active theme */
         .hljs {
             display: block;
             overflow-x: auto;
         }
 
-        .language-javascript,
-        .language-typescript,
-        .language-python,
-        .language-java,
-        .language-go,
-        .language-rust,
-        .language-cpp,
-        .language-c,
-        .language-csharp,
-        .language-html,
-        .language-css,
-        .language-json,
-        .language-yaml,
-        .language-bash,
-        .language-shell {
-            /* Language-specific styling can be added here */
+        body {
+            --syntax-comment: #008000;
+            --syntax-string: #a31515;
+            --syntax-number: #098658;
+            --syntax-keyword: #0000ff;
+            --syntax-literal: #0000ff;
+            --syntax-type: #267f99;
+            --syntax-function: #795e26;
+            --syntax-property: #001080;
+            --syntax-variable: #001080;
+            --syntax-tag: #800000;
+            --syntax-attribute: #e50000;
+            --syntax-meta: #af00db;
+            --syntax-section: #0451a5;
+            --syntax-inserted: #098658;
+            --syntax-deleted: #a31515;
+        }
+
+        body.vscode-dark {
+            --syntax-comment: #6a9955;
+            --syntax-string: #ce9178;
+            --syntax-number: #b5cea8;
+            --syntax-keyword: #569cd6;
+            --syntax-literal: #569cd6;
+            --syntax-type: #4ec9b0;
+            --syntax-function: #dcdcaa;
+            --syntax-property: #9cdcfe;
+            --syntax-variable: #9cdcfe;
+            --syntax-tag: #569cd6;
+            --syntax-attribute: #9cdcfe;
+            --syntax-meta: #c586c0;
+            --syntax-section: #569cd6;
+            --syntax-inserted: #b5cea8;
+            --syntax-deleted: #ce9178;
+        }
+
+        body.vscode-high-contrast:not(.vscode-high-contrast-light) {
+            --syntax-comment: #7ca668;
+            --syntax-string: #ce9178;
+            --syntax-number: #b5cea8;
+            --syntax-keyword: #569cd6;
+            --syntax-literal: #569cd6;
+            --syntax-type: #4ec9b0;
+            --syntax-function: #dcdcaa;
+            --syntax-property: #d4d4d4;
+            --syntax-variable: #9cdcfe;
+            --syntax-tag: #569cd6;
+            --syntax-attribute: #9cdcfe;
+            --syntax-meta: #c586c0;
+            --syntax-section: #569cd6;
+            --syntax-inserted: #89d185;
+            --syntax-deleted: #f48771;
+        }
+
+        body.vscode-high-contrast-light {
+            --syntax-comment: #515151;
+            --syntax-string: #0f4a85;
+            --syntax-number: #096d48;
+            --syntax-keyword: #0f4a85;
+            --syntax-literal: #0f4a85;
+            --syntax-type: #185e73;
+            --syntax-function: #5e2cbc;
+            --syntax-property: #264f78;
+            --syntax-variable: #264f78;
+            --syntax-tag: #0f4a85;
+            --syntax-attribute: #264f78;
+            --syntax-meta: #b5200d;
+            --syntax-section: #0f4a85;
+            --syntax-inserted: #374e06;
+            --syntax-deleted: #b5200d;
+        }
+
+        .tok-comment { color: var(--syntax-comment); font-style: italic; }
+        .tok-string { color: var(--syntax-string); }
+        .tok-number { color: var(--syntax-number); }
+        .tok-keyword { color: var(--syntax-keyword); }
+        .tok-literal { color: var(--syntax-literal); }
+        .tok-type { color: var(--syntax-type); }
+        .tok-function { color: var(--syntax-function); }
+        .tok-property { color: var(--syntax-property); }
+        .tok-variable { color: var(--syntax-variable); }
+        .tok-tag { color: var(--syntax-tag); }
+        .tok-attribute { color: var(--syntax-attribute); }
+        .tok-meta { color: var(--syntax-meta); }
+        .tok-section { color: var(--syntax-section); font-weight: 600; }
+        .tok-inserted { color: var(--syntax-inserted); }
+        .tok-deleted { color: var(--syntax-deleted); }
+
+        /* Lines picked with {1,3-5} in the fence info, across the block's padding */
+        .content pre .highlighted-line {
+            display: block;
+            margin: 0 -16px;
+            padding: 0 16px;
+            background-color: var(--vscode-editor-lineHighlightBackground, rgba(128, 128, 128, 0.15));
+            box-shadow: inset 3px 0 var(--vscode-focusBorder);
         }
 
         /* Responsive design */
@@ -564,9 +813,7 @@ export class MarkdownViewer implements vscode.Disposable {
                 <!-- TOC will be injected here -->
             </div>
         </nav>
-        <main class="content" id="content">
-            ${renderedContent}
-        </main>
+        <main class="content" id="content">${renderedContent}</main>
     </div>
     
     <button class="go-to-top" id="goToTopBtn" title="Go to top">
@@ -601,42 +848,154 @@ export class MarkdownViewer implements vscode.Disposable {
                 vscode.setState({ tocVisible: !isHidden });
             });
 
-            // Extract TOC from rendered content
-            const tocElement = content.querySelector('.table-of-contents');
             const tocContainer = document.getElementById('toc-container');
-            
-            if (tocElement && tocContainer) {
-                tocContainer.appendChild(tocElement.cloneNode(true));
-                tocElement.remove();
-            } else if (tocContainer) {
-                // Generate TOC from headers if not present
-                const headers = content.querySelectorAll('h1, h2, h3, h4, h5, h6');
-                if (headers.length > 0) {
-                    const toc = document.createElement('ul');
-                    toc.className = 'table-of-contents';
-                    
-                    headers.forEach((header, index) => {
-                        if (!header.id) {
-                            header.id = 'header-' + index;
-                        }
-                        
-                        const li = document.createElement('li');
-                        const a = document.createElement('a');
-                        a.href = '#' + header.id;
-                        a.textContent = header.textContent.replace('#', '').trim();
-                        li.appendChild(a);
-                        
-                        // Add indentation based on header level
-                        const level = parseInt(header.tagName.substring(1));
-                        li.style.paddingLeft = ((level - 1) * 15) + 'px';
+            let activeHeadingId = null;
+
+            // Move the TOC out of rendered content into the sidebar, or build one from the headers
+            function buildToc(source) {
+                const tocElement = source.querySelector('.table-of-contents');
+                let toc = null;
+
+                if (tocElement) {
+                    toc = tocElement.cloneNode(true);
+                    tocElement.remove();
+                } else {
+                    // Generate TOC from headers if not present
+                    const headers = source.querySelectorAll('h1, h2, h3, h4, h5, h6');
+                    if (headers.length > 0) {
+                        toc = document.createElement('ul');
+                        toc.className = 'table-of-contents';
                         
-                        toc.appendChild(li);
+                        headers.forEach((header, index) => {
+                            if (!header.id) {
+                                header.id = 'header-' + index;
+                            }
+                            
+                            const li = document.createElement('li');
+                            const a = document.createElement('a');
+                            a.href = '#' + header.id;
+                            a.textContent = header.textContent.replace('#', '').trim();
+                            li.appendChild(a);
+                            
+                            // Add indentation based on header level
+                            const level = parseInt(header.tagName.substring(1));
+                            li.style.paddingLeft = ((level - 1) * 15) + 'px';
+                            
+                            toc.appendChild(li);
+                        });
+                    }
+                }
+
+                if (toc) {
+                    // Lets the "Go to Heading in Source" context menu item find the heading's lines
+                    toc.querySelectorAll('a').forEach(link => {
+                        const heading = source.querySelector('#' + CSS.escape((link.getAttribute('href') || '').substring(1)));
+                        if (heading && heading.hasAttribute('data-line')) {
+                            link.setAttribute('data-vscode-context', JSON.stringify({
+                                webviewSection: 'tocEntry',
+                                preventDefaultContextMenuItems: true,
+                                line: Number(heading.getAttribute('data-line')),
+                                endLine: Number(heading.getAttribute('data-line-end'))
+                            }));
+                        }
                     });
-                    
-                    tocContainer.appendChild(toc);
                 }
+
+                if (!toc) {
+                    tocContainer.replaceChildren();
+                } else if (!tocContainer.firstElementChild || !tocContainer.firstElementChild.isEqualNode(toc)) {
+                    tocContainer.replaceChildren(toc);
+                }
+                highlightTocLink(activeHeadingId);
+            }
+
+            function highlightTocLink(id) {
+                activeHeadingId = id;
+                document.querySelectorAll('.toc-sidebar a').forEach((link) => {
+                    link.style.fontWeight = id !== null && link.getAttribute('href') === '#' + id ? '600' : 'normal';
+                });
+            }
+
+            const SOURCE_LINE_ATTRIBUTES = ['data-line', 'data-line-end'];
+
+            function sourceLineElements(node) {
+                return node.nodeType === Node.ELEMENT_NODE ? [node, ...node.querySelectorAll('[data-line]')] : [];
             }
 
+            function withoutSourceLines(node) {
+                const copy = node.cloneNode(true);
+                sourceLineElements(copy).forEach(element => {
+                    SOURCE_LINE_ATTRIBUTES.forEach(name => element.removeAttribute(name));
+                });
+                return copy;
+            }
+
+            /**
+             * Updates the source lines of a kept node from its equal new version, element by element
+             */
+            function copySourceLines(from, to) {
+                if (from.nodeType !== Node.ELEMENT_NODE) {
+                    return;
+                }
+                const sources = [from, ...from.querySelectorAll('*')];
+                const targets = [to, ...to.querySelectorAll('*')];
+                sources.forEach((source, index) => {
+                    SOURCE_LINE_ATTRIBUTES.forEach(name => {
+                        const value = source.getAttribute(name);
+                        if (value === null) {
+                            targets[index].removeAttribute(name);
+                        } else if (targets[index].getAttribute(name) !== value) {
+                            targets[index].setAttribute(name, value);
+                        }
+                    });
+                });
+            }
+
+            /**
+             * Replaces only the top-level nodes that changed, so the unchanged
+             * ones above and below an edit keep their place on the page
+             */
+            function patchContent(html) {
+                const template = document.createElement('template');
+                template.innerHTML = html;
+                const incoming = template.content;
+                buildToc(incoming);
+
+                const oldNodes = Array.from(content.childNodes);
+                const newNodes = Array.from(incoming.childNodes);
+                const same = (a, b) => {
+                    // Keep the front matter panel open or closed as the reader left it
+                    if (a.nodeName === 'DETAILS' && b.nodeName === 'DETAILS') {
+                        b.open = a.open;
+                    }
+                    // Adding a line shifts the source lines of every later block, which alone is no reason to replace it
+                    if (!withoutSourceLines(a).isEqualNode(withoutSourceLines(b))) {
+                        return false;
+                    }
+                    copySourceLines(b, a);
+                    return true;
+                };
+
+                let start = 0;
+                while (start < oldNodes.length && start < newNodes.length && same(oldNodes[start], newNodes[start])) {
+                    start++;
+                }
+                let oldEnd = oldNodes.length;
+                let newEnd = newNodes.length;
+                while (oldEnd > start && newEnd > start && same(oldNodes[oldEnd - 1], newNodes[newEnd - 1])) {
+                    oldEnd--;
+                    newEnd--;
+                }
+
+                const next = oldNodes[oldEnd] || null;
+                oldNodes.slice(start, oldEnd).forEach(node => node.remove());
+                newNodes.slice(start, newEnd).forEach(node => content.insertBefore(node, next));
+
+                observeHeadings();
+            }
+
+            buildToc(content);
+
             // Show/hide "Go to Top" button based on scroll position
             window.addEventListener('scroll', function() {
                 if (window.pageYOffset > 300) {
@@ -654,19 +1013,21 @@ export class MarkdownViewer implements vscode.Disposable {
                 });
             });
 
-            // Add smooth scrolling to TOC links
-            document.querySelectorAll('.toc-sidebar a').forEach(link => {
-                link.addEventListener('click', function(e) {
-                    e.preventDefault();
-                    const targetId = this.getAttribute('href');
-                    const targetElement = document.querySelector(targetId);
-                    if (targetElement) {
-                        targetElement.scrollIntoView({
-                            behavior: 'smooth',
-                            block: 'start'
-                        });
-                    }
-                });
+            // Add smooth scrolling to TOC links; delegated so rebuilt TOCs keep it
+            tocContainer.addEventListener('click', function(e) {
+                const link = e.target.closest('a');
+                if (!link) {
+                    return;
+                }
+                e.preventDefault();
+                const targetId = link.getAttribute('href');
+                const targetElement = document.getElementById(targetId.substring(1));
+                if (targetElement) {
+                    targetElement.scrollIntoView({
+                        behavior: 'smooth',
+                        block: 'start'
+                    });
+                }
             });
 
             // Highlight current section in TOC
@@ -674,28 +1035,132 @@ export class MarkdownViewer implements vscode.Disposable {
                 (entries) => {
                     entries.forEach((entry) => {
                         if (entry.isIntersecting) {
-                            const id = entry.target.getAttribute('id');
-                            document.querySelectorAll('.toc-sidebar a').forEach((link) => {
-                                link.style.fontWeight = 'normal';
-                                if (link.getAttribute('href') === '#' + id) {
-                                    link.style.fontWeight = '600';
-                                }
-                            });
+                            highlightTocLink(entry.target.getAttribute('id'));
                         }
                     });
                 },
                 { rootMargin: '0px 0px -80% 0px' }
             );
 
-            document.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach((header) => {
-                observer.observe(header);
+            function observeHeadings() {
+                observer.disconnect();
+                content.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach((header) => {
+                    observer.observe(header);
+                });
+            }
+            observeHeadings();
+
+            // Scroll sync: blocks carry the source line they start on in data-line
+            let ignoreScrollUntil = 0;
+            let scrollReportPending = false;
+
+            // Source line and page offset of every tagged block, in document order
+            function getLineBlocks() {
+                return Array.from(content.querySelectorAll('[data-line]')).map(element => ({
+                    line: Number(element.getAttribute('data-line')),
+                    top: element.getBoundingClientRect().top + window.scrollY
+                }));
+            }
+
+            function scrollToLine(line, onlyIfHidden) {
+                const blocks = getLineBlocks();
+                let previous = null;
+                let next = null;
+                for (const block of blocks) {
+                    if (block.line <= line) {
+                        previous = block;
+                    } else {
+                        next = block;
+                        break;
+                    }
+                }
+                if (!previous) {
+                    return;
+                }
+
+                // Interpolate between blocks so long paragraphs and code scroll smoothly
+                const offset = next && next.line > previous.line
+                    ? previous.top + (next.top - previous.top) * (line - previous.line) / (next.line - previous.line)
+                    : previous.top;
+                if (onlyIfHidden && offset >= window.scrollY && offset < window.scrollY + window.innerHeight) {
+                    return;
+                }
+
+                ignoreScrollUntil = Date.now() + 100;
+                // Jump rather than animate, so the scroll events all fall inside the ignore window
+                window.scrollTo({ top: onlyIfHidden ? offset - window.innerHeight / 3 : offset, behavior: 'instant' });
+            }
+
+            function getLineAtTop() {
+                const blocks = getLineBlocks();
+                const top = window.scrollY;
+                let previous = null;
+                for (const block of blocks) {
+                    if (block.top > top) {
+                        return previous && block.top > previous.top
+                            ? previous.line + (block.line - previous.line) * (top - previous.top) / (block.top - previous.top)
+                            : block.line;
+                    }
+                    previous = block;
+                }
+                return previous ? previous.line : 0;
+            }
+
+            window.addEventListener('scroll', function() {
+                if (Date.now() < ignoreScrollUntil || scrollReportPending) {
+                    return;
+                }
+                scrollReportPending = true;
+                window.requestAnimationFrame(() => {
+                    scrollReportPending = false;
+                    vscode.postMessage({ command: 'didScroll', line: getLineAtTop() });
+                });
             });
+
+            // Double-clicking a block opens its source with the block's lines selected
+            content.addEventListener('dblclick', event => {
+                const block = event.target.closest('[data-line]');
+                if (block && !event.target.closest('a, summary')) {
+                    vscode.postMessage({
+                        command: 'revealSource',
+                        line: Number(block.getAttribute('data-line')),
+                        endLine: Number(block.getAttribute('data-line-end'))
+                    });
+                }
+            });
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                switch (message.command) {
+                    case 'update':
+                        patchContent(message.html);
+                        break;
+                    case 'scrollToLine':
+                        scrollToLine(message.line, message.onlyIfHidden);
+                        break;
+                }
+            });
+
+            vscode.postMessage({ command: 'ready' });
         })();
     </script>
 </body>
 </html>`;
     }
 
+    /**
+     * Renders front matter as a collapsible table of its top-level fields
+     */
+    private renderFrontMatter(frontMatter: FrontMatter): string {
+        const fields = parseFrontMatterFields(frontMatter);
+        const label = frontMatter.format === 'yaml' ? 'YAML front matter' : 'TOML front matter';
+        const body = fields.length > 0
+            ? `<table>${fields.map(([key, value]) => `<tr><th>${this.escapeHtml(key)}</th><td>${this.escapeHtml(value)}</td></tr>`).join('')}</table>`
+            : `<pre><code>${this.escapeHtml(frontMatter.content)}</code></pre>`;
+
+        return `<details class="front-matter"><summary>${label}</summary>${body}</details>`;
+    }
+
     private escapeHtml(unsafe: string): string {
         return unsafe
             .replace(/&/g, "&amp;")
@@ -0,0 +1,49 @@
+/**
+ * Mode Directive
+ * Reads and updates the in-file `<!-- markdown-angel: <mode> -->` comment that pins a document's mode
+ */
+
+import { parseTokens } from './markdownBlocks';
+
+export interface ModeDirective {
+    mode: string;
+    /** Source line (0-based) of the comment */
+    line: number;
+}
+
+const DIRECTIVE_REGEX = /<!--\s*markdown-angel:\s*([^\s>][^>]*?)\s*-->/;
+
+/**
+ * Returns the first mode directive written as its own HTML block, so
+ * directives quoted in code blocks or inline text are ignored
+ */
+export function findModeDirective(markdown: string): ModeDirective | null {
+    if (!markdown.includes('markdown-angel:')) {
+        return null;
+    }
+
+    for (const token of parseTokens(markdown)) {
+        const match = token.type === 'html_block' ? DIRECTIVE_REGEX.exec(token.content) : null;
+        if (match && token.map) {
+            const offset = token.content.substring(0, match.index).split('\n').length - 1;
+            return { mode: match[1], line: token.map[0] + offset };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Rewrites an existing mode directive to name another mode; documents without
+ * a directive are returned unchanged
+ */
+export function setModeDirective(markdown: string, mode: string): string {
+    const directive = findModeDirective(markdown);
+    if (!directive || directive.mode === mode) {
+        return markdown;
+    }
+
+    const lines = markdown.split('\n');
+    lines[directive.line] = lines[directive.line].replace(DIRECTIVE_REGEX, `<!-- markdown-angel: ${mode} -->`);
+    return lines.join('\n');
+}
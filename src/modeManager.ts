@@ -4,18 +4,79 @@
  */
 
 import * as vscode from 'vscode';
-import { MarkdownMode, detectCurrentMode, formatMarkdown } from './markdownFormatter';
+import {
+    FormatOptions,
+    FormatProfile,
+    MarkdownMode,
+    ModeDetection,
+    analyzeMode,
+    describeModeMetrics,
+    formatMarkdown
+} from './markdownFormatter';
+import { describeDifference, findSemanticDifferences } from './markdownEquivalence';
+import { SectionTokens, countTokens, countTokensByHeading, formatTokenCount } from './tokenCounter';
+import { diffLines, mapLineThroughHunks } from './textDiff';
+import { findModeDirective, setModeDirective } from './modeDirective';
+import { FormatSettings, ProfileSetting, buildFormatOptions, buildProfiles } from './settings';
+import { isModeView } from './modeView';
 
 const MODE_STATE_KEY = 'markdown-angel.fileModes';
+const CONFIG_SECTION = 'markdown-angel';
+const MAX_LISTED_DIFFERENCES = 10;
+// Detection must lead by at least two score points before a chosen mode is reported as stale
+const STALE_MODE_CONFIDENCE = 0.3;
+
+/**
+ * Markdown files the mode applies to; the read-only views of a file in another mode are left alone
+ */
+function isMarkdownSource(document: vscode.TextDocument): boolean {
+    return document.languageId === 'markdown' && !isModeView(document.uri);
+}
+
+/**
+ * Where the effective mode of a document came from, from highest to lowest priority
+ */
+export type ModeSource = 'directive' | 'file' | 'defaultModes' | 'detected' | 'fallback';
+
+export interface ModeResolution {
+    mode: MarkdownMode;
+    source: ModeSource;
+    /** Matching `markdown-angel.defaultModes` glob, for the 'defaultModes' source */
+    pattern?: string;
+    /** Detection result for the current content, for the 'detected' source and stale checks */
+    detection?: ModeDetection;
+}
+
+export interface ModeStats {
+    currentMode: MarkdownMode;
+    lineCount: number;
+    blankLineCount: number;
+    blankLineRatio: number;
+    tokenCount: number;
+    compactTokenCount: number;
+    humanTokenCount: number;
+    sections: SectionTokens[];
+    detection: ModeDetection | null;
+}
 
 export class ModeManager {
     private context: vscode.ExtensionContext;
     private statusBarItem: vscode.StatusBarItem;
+    private statusBarTimeout: NodeJS.Timeout | undefined;
+    // Built when the profiles setting changes, so problems with it are reported once
+    private profiles: FormatProfile[] = [];
     private fileModes: Map<string, MarkdownMode>;
+    // Detected modes are kept for the session only, so they never shadow defaultModes
+    private detectedModes: Map<string, ModeDetection>;
+    private fileModesChanged = new vscode.EventEmitter<void>();
+
+    /** Fires when modes stored per file are added, changed or removed */
+    public readonly onDidChangeFileModes = this.fileModesChanged.event;
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
         this.fileModes = new Map();
+        this.detectedModes = new Map();
         
         // Create status bar item
         this.statusBarItem = vscode.window.createStatusBarItem(
@@ -28,6 +89,7 @@ export class ModeManager {
 
         // Load saved preferences
         this.loadFileModes();
+        this.loadProfiles();
 
         // Update status bar when active editor changes
         context.subscriptions.push(
@@ -40,11 +102,46 @@ export class ModeManager {
         context.subscriptions.push(
             vscode.workspace.onDidChangeTextDocument((event) => {
                 if (event.document === vscode.window.activeTextEditor?.document) {
+                    this.scheduleStatusBarUpdate();
+                }
+            })
+        );
+
+        // Pick up added, edited or removed profiles and default modes
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration(`${CONFIG_SECTION}.profiles`)) {
+                    this.loadProfiles();
+                }
+                if (event.affectsConfiguration(`${CONFIG_SECTION}.profiles`) || event.affectsConfiguration(`${CONFIG_SECTION}.defaultModes`)) {
                     this.updateStatusBar();
                 }
             })
         );
 
+        // Re-check files edited outside the editor, e.g. by git or another tool
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.{md,markdown}');
+        const recheck = (uri: vscode.Uri) => {
+            this.detectedModes.delete(uri.toString());
+            this.updateStatusBar();
+        };
+        context.subscriptions.push(watcher, watcher.onDidChange(recheck), watcher.onDidCreate(recheck), watcher.onDidDelete(recheck));
+
+        // Stored modes follow files renamed, moved or deleted in the editor
+        context.subscriptions.push(
+            vscode.workspace.onDidRenameFiles((event) => {
+                this.moveFileModes(event.files.map(file => [file.oldUri, file.newUri]));
+            }),
+            vscode.workspace.onDidDeleteFiles((event) => {
+                this.removeFileModes(event.files);
+            })
+        );
+
+        // Files removed outside the editor are only noticed at startup
+        this.pruneMissingFileModes().catch(error => {
+            console.error('Error pruning modes of missing files:', error);
+        });
+
         // Initial status bar update
         this.updateStatusBar();
     }
@@ -70,32 +167,269 @@ export class ModeManager {
         try {
             const modesObject = Object.fromEntries(this.fileModes);
             await this.context.workspaceState.update(MODE_STATE_KEY, modesObject);
+            this.fileModesChanged.fire();
         } catch (error) {
             console.error('Error saving file modes:', error);
         }
     }
 
+    /**
+     * Get the modes stored per file, keyed by URI
+     */
+    public getFileModes(): Map<string, MarkdownMode> {
+        return new Map(this.fileModes);
+    }
+
+    /**
+     * Move stored modes to the new URIs of renamed or moved files and folders
+     */
+    private async moveFileModes(moves: [vscode.Uri, vscode.Uri][]): Promise<void> {
+        let changed = false;
+
+        for (const [oldUri, newUri] of moves) {
+            const oldKey = oldUri.toString();
+            const newKey = newUri.toString();
+
+            for (const [uri, mode] of [...this.fileModes]) {
+                // A folder rename moves every stored file below it
+                if (uri === oldKey || uri.startsWith(`${oldKey}/`)) {
+                    this.fileModes.delete(uri);
+                    this.fileModes.set(newKey + uri.substring(oldKey.length), mode);
+                    changed = true;
+                }
+            }
+            this.detectedModes.delete(oldKey);
+        }
+
+        if (changed) {
+            await this.saveFileModes();
+            this.updateStatusBar();
+        }
+    }
+
+    /**
+     * Remove the stored modes of files, or of every file below a folder
+     */
+    public async removeFileModes(uris: readonly vscode.Uri[]): Promise<void> {
+        const keys = uris.map(uri => uri.toString());
+        const removed = [...this.fileModes.keys()].filter(uri => keys.some(key => uri === key || uri.startsWith(`${key}/`)));
+
+        for (const uri of removed) {
+            this.fileModes.delete(uri);
+            this.detectedModes.delete(uri);
+        }
+
+        if (removed.length > 0) {
+            await this.saveFileModes();
+            this.updateStatusBar();
+        }
+    }
+
+    /**
+     * Remove stored modes of files that no longer exist. Open documents, including
+     * untitled ones, are kept. Returns the number of removed entries.
+     */
+    public async pruneMissingFileModes(): Promise<number> {
+        const openUris = new Set(vscode.workspace.textDocuments.map(document => document.uri.toString()));
+        const missing: vscode.Uri[] = [];
+
+        for (const uri of this.fileModes.keys()) {
+            if (openUris.has(uri)) {
+                continue;
+            }
+            try {
+                await vscode.workspace.fs.stat(vscode.Uri.parse(uri));
+            } catch {
+                missing.push(vscode.Uri.parse(uri));
+            }
+        }
+
+        await this.removeFileModes(missing);
+        return missing.length;
+    }
+
+    /**
+     * Get the built-in profiles followed by the user-defined profiles from settings
+     */
+    public getProfiles(): FormatProfile[] {
+        return [...this.profiles];
+    }
+
+    /**
+     * Build the profiles from settings, warning about profiles that are skipped
+     */
+    private loadProfiles(): void {
+        const settings = vscode.workspace.getConfiguration(CONFIG_SECTION).get<ProfileSetting[]>('profiles', []);
+        this.profiles = buildProfiles(settings, message => {
+            vscode.window.showWarningMessage(`Markdown Angel: ${message} in markdown-angel.profiles`);
+        });
+    }
+
+    /**
+     * Get the format options from settings: the opt-in `markdown-angel.style` rules, paragraph reflow and link style
+     */
+    public getFormatOptions(): FormatOptions {
+        const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+        return buildFormatOptions({
+            style: config.get<FormatSettings['style']>('style'),
+            wrapColumn: config.get<number>('wrapColumn'),
+            unwrapParagraphs: config.get<boolean>('unwrapParagraphs'),
+            referenceLinks: config.get<FormatSettings['referenceLinks']>('referenceLinks'),
+            inlineReferences: config.get<boolean>('inlineReferences')
+        });
+    }
+
+    /**
+     * Get a profile by mode name, or undefined if no such profile is configured
+     */
+    public getProfile(mode: MarkdownMode): FormatProfile | undefined {
+        return this.getProfiles().find(profile => profile.name === mode);
+    }
+
+    /**
+     * Get a user-facing label for a mode
+     */
+    public getModeLabel(mode: MarkdownMode): string {
+        switch (mode) {
+            case 'compact':
+                return 'Compact (AI-optimized)';
+            case 'human':
+                return 'Human-readable';
+            default:
+                return `"${mode}"`;
+        }
+    }
+
     /**
      * Get the current mode for a file
      */
     public getCurrentMode(document: vscode.TextDocument): MarkdownMode {
+        return this.resolveMode(document).mode;
+    }
+
+    /**
+     * Work out the mode of a file and where it came from: an in-file directive,
+     * the mode chosen for the file, a `defaultModes` glob, detection, or compact
+     */
+    public resolveMode(document: vscode.TextDocument): ModeResolution {
         const uri = document.uri.toString();
-        
-        // Check if we have a saved preference
-        if (this.fileModes.has(uri)) {
-            return this.fileModes.get(uri)!;
+
+        // An in-file directive is shared with everyone who opens the file
+        const directive = findModeDirective(document.getText());
+        if (directive && this.getProfile(directive.mode)) {
+            return { mode: directive.mode, source: 'directive' };
+        }
+
+        // Check if we have a saved preference for a profile that still exists
+        const savedMode = this.fileModes.get(uri);
+        if (savedMode && this.getProfile(savedMode)) {
+            return { mode: savedMode, source: 'file' };
+        }
+
+        const defaultMode = this.findDefaultMode(document.uri);
+        if (defaultMode) {
+            return { ...defaultMode, source: 'defaultModes' };
         }
 
-        // Detect mode from content
-        const detectedMode = detectCurrentMode(document.getText());
-        if (detectedMode) {
-            this.fileModes.set(uri, detectedMode);
-            this.saveFileModes();
-            return detectedMode;
+        // Detect mode from content once per session, so the mode does not flip while typing
+        const detection = this.detectedModes.get(uri) ?? analyzeMode(document.getText());
+        if (detection) {
+            this.detectedModes.set(uri, detection);
+            return { mode: detection.mode, source: 'detected', detection };
         }
 
         // Default to compact mode
-        return 'compact';
+        return { mode: 'compact', source: 'fallback' };
+    }
+
+    /**
+     * Check whether the content no longer looks like its directive, chosen or default
+     * mode, e.g. after it was edited outside the tool. Returns the detection if so.
+     */
+    public findStaleMode(document: vscode.TextDocument, resolution: ModeResolution = this.resolveMode(document)): ModeDetection | undefined {
+        if (resolution.source === 'detected' || resolution.source === 'fallback') {
+            return undefined;
+        }
+
+        // Only the built-in modes can be detected
+        if (resolution.mode !== 'compact' && resolution.mode !== 'human') {
+            return undefined;
+        }
+
+        const detection = analyzeMode(document.getText());
+        if (detection && detection.mode !== resolution.mode && detection.confidence >= STALE_MODE_CONFIDENCE) {
+            return detection;
+        }
+        return undefined;
+    }
+
+    /**
+     * Offer to re-sync the stored mode with the content or to reformat the content in the stored mode
+     */
+    public async resolveStaleMode(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || !isMarkdownSource(editor.document)) {
+            vscode.window.showWarningMessage('No active markdown file');
+            return;
+        }
+
+        const document = editor.document;
+        const resolution = this.resolveMode(document);
+        const detection = this.findStaleMode(document, resolution);
+        if (!detection) {
+            await this.toggleMode();
+            return;
+        }
+
+        const items = [
+            {
+                label: `$(sync) Re-sync to ${this.getShortModeLabel(detection.mode)}`,
+                detail: `Keep the content and treat the file as ${detection.mode} from now on`,
+                action: 'resync'
+            },
+            {
+                label: `$(wand) Reformat as ${this.getShortModeLabel(resolution.mode)}`,
+                detail: `Convert the content back to ${resolution.mode} mode`,
+                action: 'reformat'
+            }
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: `${this.describeModeSource(resolution)}, but the content looks ${detection.mode} (${Math.round(detection.confidence * 100)}% confidence)`,
+            placeHolder: describeModeMetrics(detection.metrics)
+        });
+
+        if (selected?.action === 'resync') {
+            if (resolution.source === 'directive') {
+                await this.applyFormattedText(editor, setModeDirective(document.getText(), detection.mode));
+            }
+            await this.setMode(document, detection.mode);
+        } else if (selected?.action === 'reformat') {
+            await this.applyMode(resolution.mode, true);
+        }
+    }
+
+    /**
+     * Find the first `markdown-angel.defaultModes` glob matching the file.
+     * Globs are relative to the file's workspace folder.
+     */
+    private findDefaultMode(uri: vscode.Uri): { mode: MarkdownMode; pattern: string } | undefined {
+        const defaultModes = vscode.workspace.getConfiguration(CONFIG_SECTION, uri).get<Record<string, string>>('defaultModes', {});
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+
+        for (const [pattern, mode] of Object.entries(defaultModes)) {
+            if (!this.getProfile(mode)) {
+                console.warn(`[Markdown Angel] Ignoring default mode for ${pattern}: unknown profile ${mode}`);
+                continue;
+            }
+
+            const filter: vscode.DocumentFilter = { pattern: folder ? new vscode.RelativePattern(folder, pattern) : pattern };
+            if (vscode.languages.match(filter, { uri, languageId: 'markdown' } as vscode.TextDocument) > 0) {
+                return { mode, pattern };
+            }
+        }
+
+        return undefined;
     }
 
     /**
@@ -109,7 +443,18 @@ export class ModeManager {
     }
 
     /**
-     * Toggle between compact and human mode
+     * Set the mode for several files at once
+     */
+    public async setModeForUris(uris: vscode.Uri[], mode: MarkdownMode): Promise<void> {
+        for (const uri of uris) {
+            this.fileModes.set(uri.toString(), mode);
+        }
+        await this.saveFileModes();
+        this.updateStatusBar();
+    }
+
+    /**
+     * Cycle to the next profile (compact → human → user-defined profiles → compact)
      */
     public async toggleMode(): Promise<void> {
         const editor = vscode.window.activeTextEditor;
@@ -119,7 +464,7 @@ export class ModeManager {
             return;
         }
 
-        if (editor.document.languageId !== 'markdown') {
+        if (!isMarkdownSource(editor.document)) {
             vscode.window.showWarningMessage('Active file is not a markdown file');
             return;
         }
@@ -127,7 +472,10 @@ export class ModeManager {
         try {
             const document = editor.document;
             const currentMode = this.getCurrentMode(document);
-            const newMode: MarkdownMode = currentMode === 'compact' ? 'human' : 'compact';
+            const profiles = this.getProfiles();
+            const currentIndex = profiles.findIndex(profile => profile.name === currentMode);
+            const newProfile = profiles[(currentIndex + 1) % profiles.length];
+            const newMode = newProfile.name;
 
             // Show progress indicator
             await vscode.window.withProgress({
@@ -138,17 +486,16 @@ export class ModeManager {
                 progress.report({ increment: 0 });
 
                 const originalText = document.getText();
-                const formattedText = formatMarkdown(originalText, newMode);
+                const formattedText = formatMarkdown(originalText, newProfile, this.getFormatOptions());
+
+                if (!await this.confirmContentPreserved(originalText, formattedText, newMode)) {
+                    return;
+                }
 
                 progress.report({ increment: 50 });
 
-                // Apply the edit with undo support
-                const success = await editor.edit((editBuilder) => {
-                    const firstLine = document.lineAt(0);
-                    const lastLine = document.lineAt(document.lineCount - 1);
-                    const fullRange = new vscode.Range(firstLine.range.start, lastLine.range.end);
-                    editBuilder.replace(fullRange, formattedText);
-                });
+                // Apply the edit with undo support, keeping an in-file directive in step
+                const success = await this.applyFormattedText(editor, setModeDirective(formattedText, newMode));
 
                 progress.report({ increment: 100 });
 
@@ -157,8 +504,7 @@ export class ModeManager {
                     await this.setMode(document, newMode);
                     
                     // Show success message
-                    const modeLabel = newMode === 'compact' ? 'Compact (AI-optimized)' : 'Human-readable';
-                    vscode.window.showInformationMessage(`Converted to ${modeLabel} mode`);
+                    vscode.window.showInformationMessage(`Converted to ${this.getModeLabel(newMode)} mode`);
                 } else {
                     vscode.window.showErrorMessage('Failed to apply formatting');
                 }
@@ -171,9 +517,9 @@ export class ModeManager {
     }
 
     /**
-     * Apply a specific mode to the current document
+     * Apply a specific mode to the current document; with reformat, even if it is already in that mode
      */
-    public async applyMode(mode: MarkdownMode): Promise<void> {
+    public async applyMode(mode: MarkdownMode, reformat = false): Promise<void> {
         const editor = vscode.window.activeTextEditor;
         
         if (!editor) {
@@ -181,7 +527,7 @@ export class ModeManager {
             return;
         }
 
-        if (editor.document.languageId !== 'markdown') {
+        if (!isMarkdownSource(editor.document)) {
             vscode.window.showWarningMessage('Active file is not a markdown file');
             return;
         }
@@ -189,8 +535,14 @@ export class ModeManager {
         try {
             const document = editor.document;
             const currentMode = this.getCurrentMode(document);
+            const profile = this.getProfile(mode);
+
+            if (!profile) {
+                vscode.window.showErrorMessage(`Unknown formatting profile: ${mode}`);
+                return;
+            }
 
-            if (currentMode === mode) {
+            if (currentMode === mode && !reformat) {
                 vscode.window.showInformationMessage(`Document is already in ${mode} mode`);
                 return;
             }
@@ -203,23 +555,21 @@ export class ModeManager {
                 progress.report({ increment: 0 });
 
                 const originalText = document.getText();
-                const formattedText = formatMarkdown(originalText, mode);
+                const formattedText = formatMarkdown(originalText, profile, this.getFormatOptions());
+
+                if (!await this.confirmContentPreserved(originalText, formattedText, mode)) {
+                    return;
+                }
 
                 progress.report({ increment: 50 });
 
-                const success = await editor.edit((editBuilder) => {
-                    const firstLine = document.lineAt(0);
-                    const lastLine = document.lineAt(document.lineCount - 1);
-                    const fullRange = new vscode.Range(firstLine.range.start, lastLine.range.end);
-                    editBuilder.replace(fullRange, formattedText);
-                });
+                const success = await this.applyFormattedText(editor, setModeDirective(formattedText, mode));
 
                 progress.report({ increment: 100 });
 
                 if (success) {
                     await this.setMode(document, mode);
-                    const modeLabel = mode === 'compact' ? 'Compact (AI-optimized)' : 'Human-readable';
-                    vscode.window.showInformationMessage(`Applied ${modeLabel} mode`);
+                    vscode.window.showInformationMessage(`Applied ${this.getModeLabel(mode)} mode`);
                 } else {
                     vscode.window.showErrorMessage('Failed to apply formatting');
                 }
@@ -231,35 +581,148 @@ export class ModeManager {
         }
     }
 
+    /**
+     * Replace only the lines that changed, so cursors, selections, folding and
+     * breakpoints outside them are kept, and keep the top visible line in view
+     */
+    private async applyFormattedText(editor: vscode.TextEditor, formattedText: string): Promise<boolean> {
+        const document = editor.document;
+        const hunks = diffLines(document.getText(), formattedText);
+
+        if (hunks.length === 0) {
+            return true;
+        }
+
+        const firstVisibleLine = editor.visibleRanges[0]?.start.line ?? 0;
+        const success = await editor.edit((editBuilder) => {
+            for (const hunk of hunks) {
+                const range = new vscode.Range(document.positionAt(hunk.oldStart), document.positionAt(hunk.oldEnd));
+                editBuilder.replace(range, hunk.newText);
+            }
+        });
+
+        if (success) {
+            const anchorLine = mapLineThroughHunks(hunks, firstVisibleLine);
+            editor.revealRange(new vscode.Range(anchorLine, 0, anchorLine, 0), vscode.TextEditorRevealType.AtTop);
+        }
+
+        return success;
+    }
+
+    /**
+     * Check that formatting only changed whitespace; otherwise list the affected
+     * blocks and let the user decide. Returns true if the edit should be applied.
+     */
+    private async confirmContentPreserved(originalText: string, formattedText: string, mode: MarkdownMode): Promise<boolean> {
+        const differences = findSemanticDifferences(originalText, formattedText);
+        if (differences.length === 0) {
+            return true;
+        }
+
+        const listed = differences.slice(0, MAX_LISTED_DIFFERENCES).map(describeDifference);
+        if (differences.length > MAX_LISTED_DIFFERENCES) {
+            listed.push(`…and ${differences.length - MAX_LISTED_DIFFERENCES} more`);
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Converting to ${mode} mode would change ${differences.length} block(s) of this document.`,
+            { modal: true, detail: listed.join('\n') },
+            'Apply Anyway'
+        );
+        return choice === 'Apply Anyway';
+    }
+
     /**
      * Update the status bar to show current mode
      */
     public updateStatusBar(): void {
+        if (this.statusBarTimeout) {
+            clearTimeout(this.statusBarTimeout);
+            this.statusBarTimeout = undefined;
+        }
+
         const editor = vscode.window.activeTextEditor;
 
-        if (!editor || editor.document.languageId !== 'markdown') {
+        if (!editor || !isMarkdownSource(editor.document)) {
             this.statusBarItem.hide();
             return;
         }
 
-        const currentMode = this.getCurrentMode(editor.document);
-        const icon = currentMode === 'compact' ? '$(fold)' : '$(unfold)';
-        const label = currentMode === 'compact' ? 'Compact' : 'Human';
+        const resolution = this.resolveMode(editor.document);
+        const currentMode = resolution.mode;
+        const staleDetection = this.findStaleMode(editor.document, resolution);
+        const tokenCount = countTokens(editor.document.getText());
         
-        this.statusBarItem.text = `${icon} ${label}`;
+        if (staleDetection) {
+            this.statusBarItem.text = `$(warning) ${this.getShortModeLabel(currentMode)} · ${formatTokenCount(tokenCount)} tokens`;
+            this.statusBarItem.tooltip = `${this.describeModeSource(resolution)}, but the content looks ${staleDetection.mode} ` +
+                `(${Math.round(staleDetection.confidence * 100)}% confidence: ${describeModeMetrics(staleDetection.metrics)})\n` +
+                `Click to re-sync or reformat\n~${tokenCount.toLocaleString()} tokens (offline estimate)`;
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+            this.statusBarItem.command = 'markdown-angel.resolveStaleMode';
+        } else {
+            this.statusBarItem.text = `${this.getModeIcon(currentMode)} ${this.getShortModeLabel(currentMode)} · ${formatTokenCount(tokenCount)} tokens`;
+            this.statusBarItem.tooltip = `${this.describeModeSource(resolution)}\nClick to switch to the next formatting profile\n~${tokenCount.toLocaleString()} tokens (offline estimate)`;
+            this.statusBarItem.backgroundColor = undefined;
+            this.statusBarItem.command = 'markdown-angel.toggleMode';
+        }
         this.statusBarItem.show();
     }
 
+    /**
+     * Update the status bar once typing pauses; counting tokens and detecting the mode read the whole document
+     */
+    private scheduleStatusBarUpdate(): void {
+        if (this.statusBarTimeout) {
+            clearTimeout(this.statusBarTimeout);
+        }
+        this.statusBarTimeout = setTimeout(() => this.updateStatusBar(), 300);
+    }
+
+    private describeModeSource(resolution: ModeResolution): string {
+        switch (resolution.source) {
+            case 'directive':
+                return `Mode set by <!-- markdown-angel: ${resolution.mode} --> in this file`;
+            case 'file':
+                return 'Mode chosen for this file';
+            case 'defaultModes':
+                return `Mode from markdown-angel.defaultModes: ${resolution.pattern}`;
+            case 'detected':
+                return resolution.detection
+                    ? `Mode detected from the document layout (${Math.round(resolution.detection.confidence * 100)}% confidence: ${describeModeMetrics(resolution.detection.metrics)})`
+                    : 'Mode detected from the document layout';
+            default:
+                return 'No mode set or detected; using compact';
+        }
+    }
+
+    private getModeIcon(mode: MarkdownMode): string {
+        switch (mode) {
+            case 'compact':
+                return '$(fold)';
+            case 'human':
+                return '$(unfold)';
+            default:
+                return '$(symbol-ruler)';
+        }
+    }
+
+    private getShortModeLabel(mode: MarkdownMode): string {
+        switch (mode) {
+            case 'compact':
+                return 'Compact';
+            case 'human':
+                return 'Human';
+            default:
+                return mode;
+        }
+    }
+
     /**
      * Get mode statistics for the current document
      */
-    public getModeStats(document: vscode.TextDocument): {
-        currentMode: MarkdownMode;
-        lineCount: number;
-        blankLineCount: number;
-        blankLineRatio: number;
-    } | null {
-        if (document.languageId !== 'markdown') {
+    public getModeStats(document: vscode.TextDocument): ModeStats | null {
+        if (!isMarkdownSource(document)) {
             return null;
         }
 
@@ -275,7 +738,12 @@ export class ModeManager {
                 currentMode,
                 lineCount,
                 blankLineCount,
-                blankLineRatio
+                blankLineRatio,
+                tokenCount: countTokens(text),
+                compactTokenCount: countTokens(formatMarkdown(text, 'compact', this.getFormatOptions())),
+                humanTokenCount: countTokens(formatMarkdown(text, 'human', this.getFormatOptions())),
+                sections: countTokensByHeading(text),
+                detection: analyzeMode(text)
             };
         } catch (error) {
             console.error('Error getting mode stats:', error);
@@ -289,7 +757,9 @@ export class ModeManager {
     public async clearModePreferences(): Promise<void> {
         try {
             this.fileModes.clear();
+            this.detectedModes.clear();
             await this.context.workspaceState.update(MODE_STATE_KEY, undefined);
+            this.fileModesChanged.fire();
             vscode.window.showInformationMessage('Mode preferences cleared');
             this.updateStatusBar();
         } catch (error) {
@@ -302,26 +772,25 @@ export class ModeManager {
      * Show quick pick to select mode
      */
     public async showModePicker(): Promise<void> {
-        const items: vscode.QuickPickItem[] = [
-            {
-                label: '$(fold) Compact Mode',
-                description: 'AI-optimized, minimal whitespace',
-                detail: 'Best for LLM context windows'
-            },
-            {
-                label: '$(unfold) Human Mode',
-                description: 'Readable, with proper spacing',
-                detail: 'Best for human reading and editing'
-            }
-        ];
+        const details: Record<string, string> = {
+            compact: 'Best for LLM context windows',
+            human: 'Best for human reading and editing'
+        };
+
+        const items = this.getProfiles().map(profile => ({
+            label: `${this.getModeIcon(profile.name)} ${profile.name in details ? `${this.getShortModeLabel(profile.name)} Mode` : profile.name}`,
+            description: profile.description,
+            detail: details[profile.name] ??
+                `Headings: ${profile.blankLinesBeforeHeading} before, ${profile.blankLinesAfterHeading} after · List items: ${profile.blankLinesBetweenListItems} · Max blank lines: ${profile.maxConsecutiveBlankLines}`,
+            mode: profile.name
+        }));
 
         const selected = await vscode.window.showQuickPick(items, {
             placeHolder: 'Select markdown mode'
         });
 
         if (selected) {
-            const mode: MarkdownMode = selected.label.includes('Compact') ? 'compact' : 'human';
-            await this.applyMode(mode);
+            await this.applyMode(selected.mode);
         }
     }
 
@@ -329,7 +798,11 @@ export class ModeManager {
      * Dispose of resources
      */
     public dispose(): void {
+        if (this.statusBarTimeout) {
+            clearTimeout(this.statusBarTimeout);
+        }
         this.statusBarItem.dispose();
+        this.fileModesChanged.dispose();
     }
 }
 
@@ -358,6 +831,13 @@ export function registerModeCommands(context: vscode.ExtensionContext, modeManag
         })
     );
 
+    // Re-sync or reformat a file whose content no longer matches its mode
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdown-angel.resolveStaleMode', () => {
+            modeManager.resolveStaleMode();
+        })
+    );
+
     // Show mode picker command
     context.subscriptions.push(
         vscode.commands.registerCommand('markdown-angel.selectMode', () => {
@@ -374,13 +854,32 @@ export function registerModeCommands(context: vscode.ExtensionContext, modeManag
 
     // Show mode stats command
     context.subscriptions.push(
-        vscode.commands.registerCommand('markdown-angel.showModeStats', () => {
+        vscode.commands.registerCommand('markdown-angel.showModeStats', async () => {
             const editor = vscode.window.activeTextEditor;
-            if (editor && editor.document.languageId === 'markdown') {
+            if (editor && isMarkdownSource(editor.document)) {
                 const stats = modeManager.getModeStats(editor.document);
                 if (stats) {
-                    const message = `Mode: ${stats.currentMode} | Lines: ${stats.lineCount} | Blank: ${stats.blankLineCount} (${(stats.blankLineRatio * 100).toFixed(1)}%)`;
-                    vscode.window.showInformationMessage(message);
+                    const saved = stats.humanTokenCount - stats.compactTokenCount;
+                    const savedRatio = stats.humanTokenCount > 0 ? saved / stats.humanTokenCount : 0;
+                    const detected = stats.detection ? ` (looks ${stats.detection.mode}, ${Math.round(stats.detection.confidence * 100)}% confidence)` : '';
+                    const message = `Mode: ${stats.currentMode}${detected} | Lines: ${stats.lineCount} | Blank: ${stats.blankLineCount} (${(stats.blankLineRatio * 100).toFixed(1)}%) | Tokens: ${stats.tokenCount} | Compact saves ${saved} (${(savedRatio * 100).toFixed(1)}%) vs human`;
+
+                    const items = stats.sections.map(section => ({
+                        label: section.level > 0 ? `${'  '.repeat(section.level - 1)}${section.heading}` : '(before first heading)',
+                        description: `${section.tokenCount} tokens`,
+                        line: section.line
+                    }));
+
+                    const selected = await vscode.window.showQuickPick(items, {
+                        title: message,
+                        placeHolder: 'Tokens per heading — select a section to jump to it'
+                    });
+
+                    if (selected) {
+                        const position = new vscode.Position(selected.line, 0);
+                        editor.selection = new vscode.Selection(position, position);
+                        editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop);
+                    }
                 }
             } else {
                 vscode.window.showWarningMessage('No active markdown file');
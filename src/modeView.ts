@@ -0,0 +1,149 @@
+/**
+ * Mode View
+ * Read-only virtual documents that show a markdown file in another mode and follow its edits
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BuiltInMode, formatMarkdown } from './markdownFormatter';
+import { ModeManager } from './modeManager';
+import { countTokens, formatTokenCount } from './tokenCounter';
+
+const VIEW_SCHEMES = new Map<BuiltInMode, string>([
+    ['compact', 'markdown-angel-compact'],
+    ['human', 'markdown-angel-human']
+]);
+
+/**
+ * Serves `markdown-angel-compact:` and `markdown-angel-human:` documents. The
+ * query holds the source URI; the content is the source formatted in the mode.
+ */
+class ModeViewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private readonly refreshTimeouts = new Map<string, NodeJS.Timeout>();
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly mode: BuiltInMode, private readonly modeManager: ModeManager) {}
+
+    public getViewUri(source: vscode.Uri): vscode.Uri {
+        return vscode.Uri.from({ scheme: VIEW_SCHEMES.get(this.mode)!, path: source.path, query: source.toString() });
+    }
+
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        try {
+            const source = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri.query));
+            return formatMarkdown(source.getText(), this.mode, this.modeManager.getFormatOptions());
+        } catch (error) {
+            console.error(`[Markdown Angel] Error rendering ${this.mode} view of ${uri.query}:`, error);
+            return '';
+        }
+    }
+
+    /**
+     * Refresh the open views of a source document
+     */
+    public refresh(source: vscode.Uri): void {
+        const view = this.getViewUri(source).toString();
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.uri.toString() === view) {
+                this.changeEmitter.fire(document.uri);
+            }
+        }
+    }
+
+    /**
+     * Refresh the open views of a source document once its edits pause
+     */
+    public scheduleRefresh(source: vscode.Uri): void {
+        const key = source.toString();
+        const existingTimeout = this.refreshTimeouts.get(key);
+        if (existingTimeout) {
+            clearTimeout(existingTimeout);
+        }
+
+        this.refreshTimeouts.set(key, setTimeout(() => {
+            this.refreshTimeouts.delete(key);
+            this.refresh(source);
+        }, 300));
+    }
+
+    public dispose(): void {
+        this.refreshTimeouts.forEach(timeout => clearTimeout(timeout));
+        this.refreshTimeouts.clear();
+        this.changeEmitter.dispose();
+    }
+}
+
+/**
+ * Whether a URI is one of the read-only `markdown-angel-compact:` or `markdown-angel-human:` views
+ */
+export function isModeView(uri: vscode.Uri): boolean {
+    return [...VIEW_SCHEMES.values()].includes(uri.scheme);
+}
+
+function getOtherMode(modeManager: ModeManager, document: vscode.TextDocument): BuiltInMode {
+    return modeManager.getCurrentMode(document) === 'compact' ? 'human' : 'compact';
+}
+
+function getMarkdownEditor(): vscode.TextEditor | undefined {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown' || isModeView(editor.document.uri)) {
+        vscode.window.showWarningMessage('Please open a markdown file first');
+        return undefined;
+    }
+    return editor;
+}
+
+export function registerModeViews(context: vscode.ExtensionContext, modeManager: ModeManager): void {
+    const providers = new Map<BuiltInMode, ModeViewProvider>();
+    for (const [mode, scheme] of VIEW_SCHEMES) {
+        const provider = new ModeViewProvider(mode, modeManager);
+        providers.set(mode, provider);
+        context.subscriptions.push(provider, vscode.workspace.registerTextDocumentContentProvider(scheme, provider));
+    }
+
+    const refreshAll = (source: vscode.Uri) => providers.forEach(provider => provider.refresh(source));
+
+    context.subscriptions.push(
+        // Views are formatted again on every refresh, so typing is debounced
+        vscode.workspace.onDidChangeTextDocument(event => providers.forEach(provider => provider.scheduleRefresh(event.document.uri))),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('markdown-angel')) {
+                vscode.workspace.textDocuments
+                    .filter(document => isModeView(document.uri))
+                    .forEach(document => refreshAll(vscode.Uri.parse(document.uri.query)));
+            }
+        }),
+        vscode.commands.registerCommand('markdown-angel.openInOtherMode', async () => {
+            const editor = getMarkdownEditor();
+            if (!editor) {
+                return;
+            }
+
+            const mode = getOtherMode(modeManager, editor.document);
+            const view = await vscode.workspace.openTextDocument(providers.get(mode)!.getViewUri(editor.document.uri));
+            await vscode.languages.setTextDocumentLanguage(view, 'markdown');
+            await vscode.window.showTextDocument(view, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+        }),
+        vscode.commands.registerCommand('markdown-angel.compareWithOtherMode', async () => {
+            const editor = getMarkdownEditor();
+            if (!editor) {
+                return;
+            }
+
+            const mode = getOtherMode(modeManager, editor.document);
+            const viewUri = providers.get(mode)!.getViewUri(editor.document.uri);
+            const sourceTokens = countTokens(editor.document.getText());
+            const viewTokens = countTokens(await providers.get(mode)!.provideTextDocumentContent(viewUri));
+            const delta = viewTokens - sourceTokens;
+
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                editor.document.uri,
+                viewUri,
+                `${path.basename(editor.document.uri.path)} ↔ ${mode} mode (${delta > 0 ? '+' : delta < 0 ? '−' : '±'}${formatTokenCount(Math.abs(delta))} tokens)`,
+                { preview: true }
+            );
+        })
+    );
+}
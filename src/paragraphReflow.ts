@@ -0,0 +1,174 @@
+/**
+ * Paragraph Reflow
+ * Re-wraps paragraph text at a column, or joins it onto one line, keeping hard breaks and unbreakable inline spans
+ */
+
+import { displayWidth } from './tableFormatter';
+
+export interface ReflowOptions {
+    /** Text before the first line, e.g. the marker of a list item */
+    firstPrefix: string;
+    /** Indentation of the other lines */
+    indent: string;
+    /** Column to wrap at, or null to join soft-wrapped lines onto one line */
+    column: number | null;
+}
+
+interface TextRun {
+    words: string[];
+    /** Hard break that ends the run: trailing spaces or a backslash */
+    hardBreak: string;
+}
+
+// A word starting a line could open a new block (list, heading, quote, rule, fence, HTML, table) instead of continuing the paragraph
+const BLOCK_START_REGEX = /^(#{1,6}|[-+*]|\d{1,9}[.)]|>.*|=+|[-:|]+|_{3,}|\*{3,}|`{3,}.*|~{3,}.*|<.*|\|.*)$/;
+
+/**
+ * Reflows the source lines of one paragraph. Line breaks are only placed between
+ * words, never inside code spans, links or autolinks, and never before a word that
+ * would start a new block.
+ */
+export function reflowParagraph(lines: string[], options: ReflowOptions): string[] {
+    const output: string[] = [];
+
+    splitRuns(lines).forEach((run, runIndex, runs) => {
+        let current = runIndex === 0 ? options.firstPrefix : options.indent;
+        let isEmpty = true;
+
+        for (const word of run.words) {
+            const candidate = isEmpty ? current + word : `${current} ${word}`;
+            const fits = options.column === null || displayWidth(candidate) <= options.column;
+
+            if (isEmpty || fits || BLOCK_START_REGEX.test(word)) {
+                current = candidate;
+            } else {
+                output.push(current);
+                current = options.indent + word;
+            }
+            isEmpty = false;
+        }
+
+        output.push(runIndex < runs.length - 1 ? current + run.hardBreak : current);
+    });
+
+    return output;
+}
+
+/**
+ * Splits paragraph lines at hard breaks into runs of words. Hard break markers
+ * on the last line are not breaks and are kept as text (a backslash) or dropped (spaces).
+ */
+function splitRuns(lines: string[]): TextRun[] {
+    const runs: TextRun[] = [];
+    let text = '';
+
+    lines.forEach((line, index) => {
+        const isLast = index === lines.length - 1;
+        const backslashes = /\\*$/.exec(line)![0].length;
+
+        if (!isLast && / {2,}$/.test(line) && trimSpaces(line) !== '') {
+            runs.push({ words: splitWords(`${text} ${trimSpaces(line)}`), hardBreak: '  ' });
+            text = '';
+        } else if (!isLast && backslashes % 2 === 1) {
+            // Whitespace before the backslash stays, so a trailing backslash in the text cannot pair with it
+            const before = line.substring(0, line.length - 1);
+            runs.push({ words: splitWords(`${text} ${trimSpaces(before)}`), hardBreak: /[ \t]$/.test(before) ? ' \\' : '\\' });
+            text = '';
+        } else {
+            text = `${text} ${trimSpaces(line)}`;
+        }
+    });
+
+    runs.push({ words: splitWords(text), hardBreak: '' });
+    return runs;
+}
+
+/**
+ * Splits text at whitespace outside code spans, link text and destinations, and autolinks or inline HTML
+ */
+export function splitWords(text: string): string[] {
+    const words: string[] = [];
+    let current = '';
+    let index = 0;
+
+    while (index < text.length) {
+        const char = text[index];
+        if (char === '\\' && index + 1 < text.length) {
+            current += text.substring(index, index + 2);
+            index += 2;
+        } else if (char === ' ' || char === '\t') {
+            if (current) {
+                words.push(current);
+            }
+            current = '';
+            index++;
+        } else {
+            const end = Math.max(index + 1, protectedSpanEnd(text, index));
+            current += text.substring(index, end);
+            index = end;
+        }
+    }
+
+    if (current) {
+        words.push(current);
+    }
+    return words;
+}
+
+// Markdown only strips spaces and tabs; other Unicode whitespace such as no-break spaces is text
+function trimSpaces(text: string): string {
+    return text.replace(/^[ \t]+|[ \t]+$/g, '');
+}
+
+function protectedSpanEnd(text: string, start: number): number {
+    const char = text[start];
+
+    if (char === '`') {
+        const fence = /^`+/.exec(text.substring(start))![0];
+        // The closing run is preceded by a content character, so the search starts after the opening run
+        const closing = new RegExp(`[^\`]${fence}(?!\`)`, 'g');
+        closing.lastIndex = start + fence.length;
+        const match = closing.exec(text);
+        return match ? match.index + match[0].length : start + fence.length;
+    }
+
+    if (char === '<' && /^<[A-Za-z/!?]/.test(text.substring(start))) {
+        const close = text.indexOf('>', start);
+        return close >= 0 ? close + 1 : start;
+    }
+
+    if (char === '[' || (char === '!' && text[start + 1] === '[')) {
+        const labelEnd = matchingBracket(text, text.indexOf('[', start), '[', ']');
+        if (labelEnd < 0) {
+            return start;
+        }
+        const next = text[labelEnd + 1];
+        if (next === '(' || next === '[') {
+            const destinationEnd = matchingBracket(text, labelEnd + 1, next, next === '(' ? ')' : ']');
+            return destinationEnd >= 0 ? destinationEnd + 1 : labelEnd + 1;
+        }
+        return labelEnd + 1;
+    }
+
+    return start;
+}
+
+function matchingBracket(text: string, start: number, open: string, close: string): number {
+    let depth = 0;
+
+    for (let index = start; index < text.length; index++) {
+        const char = text[index];
+        if (char === '\\') {
+            index++;
+        } else if (char === '`') {
+            // Brackets inside code spans do not count
+            index = protectedSpanEnd(text, index) - 1;
+        } else if (char === open) {
+            depth++;
+        } else if (char === close && --depth === 0) {
+            return index;
+        }
+    }
+
+    return -1;
+}
@@ -0,0 +1,64 @@
+/**
+ * Settings
+ * Turns the markdown-angel settings into profiles and format options, for the extension and the CLI alike
+ */
+
+import { BUILT_IN_PROFILES, BuiltInMode, FormatOptions, FormatProfile } from './markdownFormatter';
+import { StyleOptions } from './styleNormalizer';
+import { ReferencePlacement } from './linkReferences';
+
+/**
+ * Profile as written in the `markdown-angel.profiles` setting; unset rules come from the base profile
+ */
+export interface ProfileSetting extends Partial<Omit<FormatProfile, 'name'>> {
+    name: string;
+    extends?: BuiltInMode;
+}
+
+/**
+ * The formatting settings, named as in `markdown-angel.*` without the prefix
+ */
+export interface FormatSettings {
+    style?: StyleOptions;
+    wrapColumn?: number;
+    unwrapParagraphs?: boolean;
+    referenceLinks?: ReferencePlacement | 'off';
+    inlineReferences?: boolean;
+}
+
+/**
+ * Returns the built-in profiles followed by the user-defined ones; profiles
+ * with a missing or taken name are skipped and reported to `warn`
+ */
+export function buildProfiles(settings: ProfileSetting[], warn: (message: string) => void = () => undefined): FormatProfile[] {
+    const profiles = [...BUILT_IN_PROFILES];
+
+    for (const setting of settings) {
+        const name = setting.name?.trim();
+        if (!name || profiles.some(profile => profile.name === name)) {
+            warn(`Ignoring profile with missing or duplicate name: ${name}`);
+            continue;
+        }
+
+        const { extends: baseName, ...rules } = setting;
+        const base = BUILT_IN_PROFILES.find(profile => profile.name === baseName) ?? BUILT_IN_PROFILES[0];
+        profiles.push({ ...base, description: undefined, ...rules, name });
+    }
+
+    return profiles;
+}
+
+/**
+ * Returns the format options for the opt-in style rules, paragraph reflow and link style
+ */
+export function buildFormatOptions(settings: FormatSettings): FormatOptions {
+    const style = settings.style ?? {};
+    const referenceLinks = settings.referenceLinks ?? 'off';
+    const options: FormatOptions = {
+        wrapColumn: settings.wrapColumn ?? 0,
+        unwrapParagraphs: settings.unwrapParagraphs ?? false,
+        referenceLinks: referenceLinks === 'off' ? undefined : referenceLinks,
+        inlineReferences: settings.inlineReferences ?? false
+    };
+    return Object.keys(style).length > 0 ? { ...options, style } : options;
+}
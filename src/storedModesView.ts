@@ -0,0 +1,97 @@
+/**
+ * Stored Modes View
+ * Lists the modes remembered per file in the Explorer, where entries can be changed or removed
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MarkdownMode } from './markdownFormatter';
+import { ModeManager } from './modeManager';
+
+const VIEW_ID = 'markdown-angel.storedModes';
+
+class StoredModeItem extends vscode.TreeItem {
+    constructor(public readonly uri: vscode.Uri, public readonly mode: MarkdownMode) {
+        super(path.basename(uri.path) || uri.toString(), vscode.TreeItemCollapsibleState.None);
+        this.resourceUri = uri;
+        this.description = `${mode} · ${vscode.workspace.asRelativePath(uri, true)}`;
+        this.tooltip = `${uri.scheme === 'file' ? uri.fsPath : uri.toString()}\nMode: ${mode}`;
+        this.contextValue = 'storedMode';
+        this.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+    }
+}
+
+class StoredModesProvider implements vscode.TreeDataProvider<StoredModeItem> {
+    private changed = new vscode.EventEmitter<void>();
+    private fileModesListener: vscode.Disposable;
+    public readonly onDidChangeTreeData = this.changed.event;
+
+    constructor(private modeManager: ModeManager) {
+        this.fileModesListener = modeManager.onDidChangeFileModes(() => this.refresh());
+    }
+
+    public refresh(): void {
+        this.changed.fire();
+    }
+
+    public getTreeItem(item: StoredModeItem): vscode.TreeItem {
+        return item;
+    }
+
+    public getChildren(): StoredModeItem[] {
+        return [...this.modeManager.getFileModes()]
+            .map(([uri, mode]) => new StoredModeItem(vscode.Uri.parse(uri), mode))
+            .sort((a, b) => String(a.description).localeCompare(String(b.description)));
+    }
+
+    public dispose(): void {
+        this.fileModesListener.dispose();
+        this.changed.dispose();
+    }
+}
+
+/**
+ * Pick another mode for a stored entry; the file content is left as it is
+ */
+async function editStoredMode(modeManager: ModeManager, item: StoredModeItem): Promise<void> {
+    const items = modeManager.getProfiles().map(profile => ({
+        label: profile.name,
+        description: profile.name === item.mode ? 'current' : profile.description
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Mode for ${vscode.workspace.asRelativePath(item.uri)}`
+    });
+
+    if (selected && selected.label !== item.mode) {
+        await modeManager.setModeForUris([item.uri], selected.label);
+    }
+}
+
+/**
+ * Register the stored modes view and its commands
+ */
+export function registerStoredModesView(context: vscode.ExtensionContext, modeManager: ModeManager): void {
+    const provider = new StoredModesProvider(modeManager);
+
+    context.subscriptions.push(
+        provider,
+        vscode.window.createTreeView(VIEW_ID, { treeDataProvider: provider }),
+        vscode.commands.registerCommand('markdown-angel.refreshStoredModes', () => provider.refresh()),
+        vscode.commands.registerCommand('markdown-angel.editStoredMode', (item: StoredModeItem) => {
+            editStoredMode(modeManager, item).catch(error => {
+                console.error('Error editing stored mode:', error);
+                vscode.window.showErrorMessage(`Error editing stored mode: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            });
+        }),
+        vscode.commands.registerCommand('markdown-angel.removeStoredMode', (item: StoredModeItem) => {
+            modeManager.removeFileModes([item.uri]);
+        }),
+        vscode.commands.registerCommand('markdown-angel.pruneStoredModes', async () => {
+            const removed = await modeManager.pruneMissingFileModes();
+            vscode.window.showInformationMessage(
+                removed > 0 ? `Removed ${removed} stored mode(s) of missing files` : 'All stored modes belong to existing files'
+            );
+        })
+    );
+}
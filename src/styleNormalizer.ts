@@ -0,0 +1,350 @@
+/**
+ * Style Normalizer
+ * Opt-in rewrite of markdown syntax choices (list markers, heading style, emphasis and fence characters) to one house style
+ */
+
+import MarkdownIt from 'markdown-it';
+import Token from 'markdown-it/lib/token';
+import StateInline from 'markdown-it/lib/rules_inline/state_inline';
+import { MarkdownBlock, createPositionLocator, parseMarkdownBlocks, parseTokens, splitLines } from './markdownBlocks';
+import { maskFrontMatter } from './frontMatter';
+import { findSemanticDifferences } from './markdownEquivalence';
+
+/**
+ * Style rules; rules that are not set leave the existing syntax alone
+ */
+export interface StyleOptions {
+    bulletMarker?: '-' | '*' | '+';
+    /** Number ordered list items consecutively from the list's first number */
+    renumberOrderedLists?: boolean;
+    /** Indent nested lists to the content column of their parent item */
+    normalizeListIndentation?: boolean;
+    /** Rewrite `===` and `---` underlined headings as `#` headings */
+    atxHeadings?: boolean;
+    emphasisMarker?: '*' | '_';
+    strongMarker?: '**' | '__';
+    fenceMarker?: '`' | '~';
+}
+
+interface MarkerEdit {
+    /** Column where the unchanged rest of the line starts */
+    end: number;
+    prefix: string;
+}
+
+interface DelimiterRun {
+    tokenIndex: number;
+    pos: number;
+    length: number;
+}
+
+const LIST_MARKER_REGEX = /^((?:[ \t]*>[ \t]?)*)([ \t]*)([-*+]|\d{1,9}[.)])([ \t]*)/;
+
+// Records where each emphasis delimiter was found, since inline tokens carry no source positions
+const delimiterRuns = new WeakMap<StateInline, DelimiterRun[]>();
+const emphasisParser = new MarkdownIt({ html: true });
+
+emphasisParser.inline.ruler.before('emphasis', 'angel_delimiter_positions', (state, silent) => {
+    const marker = state.src.charCodeAt(state.pos);
+    if (silent || (marker !== 0x2a && marker !== 0x5f)) {
+        return false;
+    }
+
+    let length = 0;
+    while (state.src.charCodeAt(state.pos + length) === marker) {
+        length++;
+    }
+
+    // The emphasis rule pushes pending text first, then one text token per delimiter character
+    const runs = delimiterRuns.get(state) ?? [];
+    runs.push({ tokenIndex: state.tokens.length + (state.pending ? 1 : 0), pos: state.pos, length });
+    delimiterRuns.set(state, runs);
+    return false;
+});
+
+emphasisParser.inline.ruler2.before('balance_pairs', 'angel_delimiter_positions', (state) => {
+    for (const run of delimiterRuns.get(state) ?? []) {
+        for (let k = 0; k < run.length; k++) {
+            const token = state.tokens[run.tokenIndex + k];
+            if (token) {
+                token.meta = { ...token.meta, sourcePos: run.pos + k };
+            }
+        }
+    }
+    delimiterRuns.delete(state);
+    return false;
+});
+
+/**
+ * Applies the style rules. Each kind of rule is only kept if the document still
+ * renders to the same structure, so normalization never changes content.
+ */
+export function normalizeStyle(markdown: string, style: StyleOptions): string {
+    const passes: ((text: string) => string)[] = [];
+
+    if (style.fenceMarker) {
+        passes.push(text => normalizeFences(text, style.fenceMarker!));
+    }
+    if (style.atxHeadings) {
+        passes.push(convertSetextHeadings);
+    }
+    if (style.bulletMarker || style.renumberOrderedLists || style.normalizeListIndentation) {
+        passes.push(text => normalizeLists(text, style));
+    }
+    if (style.emphasisMarker || style.strongMarker) {
+        passes.push(text => normalizeEmphasis(text, style));
+    }
+
+    let result = markdown;
+    for (const pass of passes) {
+        try {
+            const candidate = pass(result);
+            if (candidate !== result && findSemanticDifferences(result, candidate).length === 0) {
+                result = candidate;
+            }
+        } catch (error) {
+            console.error('Error normalizing markdown style:', error);
+        }
+    }
+    return result;
+}
+
+function joinLines(lines: string[], original: string): string {
+    return lines.join(original.includes('\r\n') ? '\r\n' : '\n');
+}
+
+/**
+ * Rewrites fences with the preferred character, lengthened past any run of
+ * that character inside the code so the fence cannot close early
+ */
+function normalizeFences(text: string, fenceChar: '`' | '~'): string {
+    const lines = splitLines(text);
+
+    for (const token of parseTokens(text)) {
+        if (token.type !== 'fence' || !token.map || token.markup[0] === fenceChar) {
+            continue;
+        }
+        // Backtick fences cannot have backticks in their info string
+        if (fenceChar === '`' && token.info.includes('`')) {
+            continue;
+        }
+
+        const [start, end] = token.map;
+        const opening = lines[start];
+        const markupIndex = opening.indexOf(token.markup);
+        if (markupIndex < 0) {
+            continue;
+        }
+
+        const closingRegex = new RegExp(`^([ \\t>]*)(\\${token.markup[0]}{${token.markup.length},})([ \\t]*)$`);
+        const closing = end - 1 > start ? closingRegex.exec(lines[end - 1]) : null;
+        const contentEnd = closing ? end - 1 : end;
+
+        let length = 3;
+        for (let line = start + 1; line < contentEnd; line++) {
+            const run = new RegExp(`^[ \\t>]*(\\${fenceChar}+)`).exec(lines[line]);
+            length = Math.max(length, run ? run[1].length + 1 : 0);
+        }
+
+        const fence = fenceChar.repeat(length);
+        lines[start] = opening.substring(0, markupIndex) + fence + opening.substring(markupIndex + token.markup.length);
+        if (closing) {
+            lines[end - 1] = closing[1] + fence + closing[3];
+        }
+    }
+
+    return joinLines(lines, text);
+}
+
+/**
+ * Rewrites top-level setext headings as ATX headings on one line
+ */
+function convertSetextHeadings(text: string): string {
+    const lines = splitLines(text);
+    const headings = parseMarkdownBlocks(text).filter(block => block.kind === 'heading' && (block.markup === '=' || block.markup === '-'));
+
+    // Bottom-up, so removing underline lines does not move the headings still to convert
+    for (const heading of headings.reverse()) {
+        const contentLines = lines.slice(heading.startLine, heading.endLine - 1);
+        const hasHardBreak = contentLines.slice(0, -1).some(line => /(\\| {2,})$/.test(line));
+        const content = contentLines.map(line => line.trim()).join(' ');
+
+        // A trailing '#' would be read as a closing sequence
+        if (hasHardBreak || content.endsWith('#')) {
+            continue;
+        }
+
+        const level = heading.markup === '=' ? 1 : 2;
+        lines.splice(heading.startLine, heading.endLine - heading.startLine, `${'#'.repeat(level)} ${content}`);
+    }
+
+    return joinLines(lines, text);
+}
+
+/**
+ * Unifies bullet markers, renumbers ordered lists and indents nested lists to
+ * their parent's content column. Lists inside blockquotes only get markers of the
+ * same width, so their lines never need re-indenting.
+ */
+function normalizeLists(text: string, style: StyleOptions): string {
+    const lines = splitLines(text);
+    const shifts = new Array<number>(lines.length).fill(0);
+    const markerEdits = new Map<number, MarkerEdit>();
+
+    const visitBlocks = (blocks: MarkdownBlock[], inQuote: boolean) => {
+        blocks.forEach((block, index) => {
+            if (block.kind === 'list') {
+                visitList(block, inQuote, null, hasAdjacentBulletList(blocks, index));
+            } else if (block.kind === 'blockquote') {
+                visitBlocks(block.children, true);
+            }
+        });
+    };
+
+    const visitList = (list: MarkdownBlock, inQuote: boolean, targetIndent: number | null, keepBullets: boolean) => {
+        const ordered = list.token?.type === 'ordered_list_open';
+        const start = parseInt(list.children[0]?.token?.info || '1', 10);
+        let siblingIndent = targetIndent;
+
+        list.children.forEach((item, index) => {
+            const line = item.startLine;
+            const match = markerEdits.has(line) ? null : LIST_MARKER_REGEX.exec(lines[line]);
+            let contentColumn: number | null = null;
+
+            if (match) {
+                const [whole, quote, indent, marker, spacing] = match;
+                let newMarker = marker;
+                if (!ordered && style.bulletMarker && !keepBullets) {
+                    newMarker = style.bulletMarker;
+                } else if (ordered && style.renumberOrderedLists) {
+                    newMarker = `${start + index}${marker.slice(-1)}`;
+                }
+
+                if (inQuote || /\t/.test(indent + spacing)) {
+                    if (newMarker.length === marker.length) {
+                        markerEdits.set(line, { end: quote.length + indent.length + marker.length, prefix: quote + indent + newMarker });
+                    }
+                } else {
+                    const currentIndent = indent.length + shifts[line];
+                    const newIndent = style.normalizeListIndentation ? (siblingIndent ?? currentIndent) : currentIndent;
+                    siblingIndent = siblingIndent ?? newIndent;
+                    markerEdits.set(line, { end: quote.length + indent.length + marker.length, prefix: quote + ' '.repeat(newIndent) + newMarker });
+
+                    // The item's other lines follow its content column
+                    const extra = newIndent - currentIndent + newMarker.length - marker.length;
+                    for (let next = line + 1; next < item.endLine; next++) {
+                        shifts[next] += extra;
+                    }
+
+                    const hasContent = whole.length < lines[line].length;
+                    const spaces = hasContent && spacing.length >= 1 && spacing.length <= 4 ? spacing.length : 1;
+                    contentColumn = newIndent + newMarker.length + spaces;
+                }
+            }
+
+            item.children.forEach((child, childIndex) => {
+                if (child.kind === 'list') {
+                    const target = style.normalizeListIndentation ? contentColumn : null;
+                    visitList(child, inQuote, target, hasAdjacentBulletList(item.children, childIndex));
+                } else if (child.kind === 'blockquote') {
+                    visitBlocks(child.children, true);
+                }
+            });
+        });
+    };
+
+    visitBlocks(parseMarkdownBlocks(text), false);
+
+    const output = lines.map((line, index) => {
+        const edit = markerEdits.get(index);
+        return edit ? edit.prefix + line.substring(edit.end) : shiftIndent(line, shifts[index]);
+    });
+    return joinLines(output, text);
+}
+
+/**
+ * Bullet lists next to each other are only separate lists because their markers differ
+ */
+function hasAdjacentBulletList(siblings: MarkdownBlock[], index: number): boolean {
+    const isBulletList = (block?: MarkdownBlock) => block?.kind === 'list' && block.token?.type === 'bullet_list_open';
+    return isBulletList(siblings[index]) && (isBulletList(siblings[index - 1]) || isBulletList(siblings[index + 1]));
+}
+
+function shiftIndent(line: string, shift: number): string {
+    if (shift === 0 || line.trim() === '') {
+        return line;
+    }
+    if (shift > 0) {
+        return ' '.repeat(shift) + line;
+    }
+    const spaces = /^ */.exec(line)![0].length;
+    return line.substring(Math.min(spaces, -shift));
+}
+
+/**
+ * Swaps emphasis and strong delimiters. Underscores are not used where they
+ * would touch a letter or digit, since intraword underscores are not emphasis.
+ */
+function normalizeEmphasis(text: string, style: StyleOptions): string {
+    const lines = splitLines(text);
+    const tokens = emphasisParser.parse(maskFrontMatter(text), {});
+    const edits = new Map<number, Map<number, string>>();
+
+    tokens.forEach((token, index) => {
+        const parent = tokens[index - 1];
+        if (token.type !== 'inline' || !token.map || parent?.type === 'th_open' || parent?.type === 'td_open') {
+            return;
+        }
+
+        const locate = createPositionLocator(token, lines);
+        const stack: Token[] = [];
+
+        for (const child of token.children ?? []) {
+            if (child.type === 'em_open' || child.type === 'strong_open') {
+                stack.push(child);
+                continue;
+            }
+            if (child.type !== 'em_close' && child.type !== 'strong_close') {
+                continue;
+            }
+
+            const open = stack.pop();
+            const target = child.type === 'em_close' ? style.emphasisMarker : style.strongMarker?.[0];
+            if (!open || !target || open.markup[0] === target) {
+                continue;
+            }
+
+            const openPos: number | undefined = open.meta?.sourcePos;
+            const closePos: number | undefined = child.meta?.sourcePos;
+            if (openPos === undefined || closePos === undefined) {
+                continue;
+            }
+
+            // Strong delimiters are recorded at the inner character of the opener and the first of the closer
+            const positions = child.type === 'em_close' ? [openPos, closePos] : [openPos - 1, openPos, closePos, closePos + 1];
+            const before = token.content[positions[0] - 1] ?? '';
+            const after = token.content[positions[positions.length - 1] + 1] ?? '';
+            if (target === '_' && (/[\p{L}\p{N}]/u.test(before) || /[\p{L}\p{N}]/u.test(after))) {
+                continue;
+            }
+
+            const located = positions.map(locate);
+            if (located.some(position => !position || lines[position[0]][position[1]] !== open.markup[0])) {
+                continue;
+            }
+            for (const [line, column] of located as [number, number][]) {
+                const lineEdits = edits.get(line) ?? new Map<number, string>();
+                lineEdits.set(column, target);
+                edits.set(line, lineEdits);
+            }
+        }
+    });
+
+    for (const [line, lineEdits] of edits) {
+        for (const [column, char] of lineEdits) {
+            lines[line] = lines[line].substring(0, column) + char + lines[line].substring(column + 1);
+        }
+    }
+
+    return joinLines(lines, text);
+}
@@ -0,0 +1,495 @@
+/**
+ * Syntax Highlighter
+ * Offline highlighting for preview code blocks, with a small regex grammar per common language
+ */
+
+export type HighlightKind =
+    | 'comment'
+    | 'string'
+    | 'number'
+    | 'keyword'
+    | 'literal'
+    | 'type'
+    | 'function'
+    | 'property'
+    | 'variable'
+    | 'tag'
+    | 'attribute'
+    | 'meta'
+    | 'section'
+    | 'inserted'
+    | 'deleted';
+
+export interface HighlightToken {
+    /** Kind of the text, or null for text that is not highlighted */
+    kind: HighlightKind | null;
+    text: string;
+}
+
+/** Inclusive range of 1-based lines */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+export interface FenceInfo {
+    language: string;
+    /** Lines to emphasize, from a `{1,3-5}` suffix */
+    highlightedLines: LineRange[];
+}
+
+type Rule = [HighlightKind | ((text: string) => HighlightToken[]), RegExp];
+
+interface Grammar {
+    /** Patterns tried in order at each position, before identifiers */
+    rules: Rule[];
+    keywords?: string[];
+    literals?: string[];
+    types?: string[];
+    /** Identifiers starting with a capital letter are types */
+    capitalizedTypes?: boolean;
+    caseInsensitive?: boolean;
+}
+
+interface CompiledGrammar {
+    rules: [Rule[0], RegExp][];
+    keywords: Set<string>;
+    literals: Set<string>;
+    types: Set<string>;
+    capitalizedTypes: boolean;
+    caseInsensitive: boolean;
+}
+
+const IDENTIFIER_REGEX = /[A-Za-z_$][\w$]*/y;
+const CALL_REGEX = /\s*\(/y;
+const FENCE_INFO_REGEX = /^([^\s{]*)\s*(?:\{([\d\s,-]*)\})?/;
+
+/**
+ * Rule kind for a pattern that matches plain text before the highlighted part. Patterns
+ * consume the text instead of looking behind for it, since a lookbehind that can grow is
+ * retried at every position of a line.
+ */
+function afterPlainPrefix(prefix: RegExp, kind: HighlightKind): (text: string) => HighlightToken[] {
+    return text => {
+        const plain = prefix.exec(text)![0];
+        return plain ? [{ kind: null, text: plain }, { kind, text: text.substring(plain.length) }] : [{ kind, text }];
+    };
+}
+
+const LINE_COMMENT: Rule = ['comment', /\/\/.*/];
+const BLOCK_COMMENT: Rule = ['comment', /\/\*[\s\S]*?(?:\*\/|$)/];
+const HASH_COMMENT: Rule = ['comment', /#.*/];
+const DOUBLE_STRING: Rule = ['string', /"(?:[^"\\\n]|\\.)*"?/];
+const SINGLE_STRING: Rule = ['string', /'(?:[^'\\\n]|\\.)*'?/];
+const CHAR_LITERAL: Rule = ['string', /'(?:[^'\\\n]|\\.)'/];
+const NUMBER: Rule = ['number', /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)[a-zA-Z]*/];
+
+const C_FAMILY_KEYWORDS = [
+    'auto', 'break', 'case', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extern', 'for', 'goto', 'if',
+    'inline', 'register', 'return', 'sizeof', 'static', 'struct', 'switch', 'typedef', 'union', 'volatile', 'while'
+];
+const C_TYPES = ['bool', 'char', 'double', 'float', 'int', 'long', 'short', 'signed', 'unsigned', 'void', 'size_t'];
+
+const JAVASCRIPT: Grammar = {
+    rules: [
+        LINE_COMMENT, BLOCK_COMMENT, DOUBLE_STRING, SINGLE_STRING,
+        ['string', /`(?:[^`\\]|\\[\s\S])*`?/],
+        ['meta', /@[\w$]+/],
+        NUMBER
+    ],
+    keywords: [
+        'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+        'do', 'else', 'export', 'extends', 'finally', 'for', 'from', 'function', 'get', 'if', 'import', 'in', 'instanceof',
+        'let', 'new', 'of', 'return', 'set', 'static', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void',
+        'while', 'with', 'yield'
+    ],
+    literals: ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity'],
+    capitalizedTypes: true
+};
+
+const TYPESCRIPT: Grammar = {
+    ...JAVASCRIPT,
+    keywords: [
+        ...JAVASCRIPT.keywords!, 'abstract', 'declare', 'enum', 'implements', 'infer', 'interface', 'is', 'keyof',
+        'namespace', 'private', 'protected', 'public', 'readonly', 'satisfies', 'type'
+    ],
+    types: ['any', 'bigint', 'boolean', 'never', 'number', 'object', 'string', 'symbol', 'unknown']
+};
+
+const PYTHON: Grammar = {
+    rules: [
+        HASH_COMMENT,
+        ['string', /[rRbBuUfF]{0,2}("""|''')[\s\S]*?(?:\1|$)/],
+        ['string', /[rRbBuUfF]{0,2}(?:"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/],
+        ['meta', /@[\w.]+/],
+        NUMBER
+    ],
+    keywords: [
+        'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+        'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'match', 'case', 'nonlocal', 'not',
+        'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield', 'self'
+    ],
+    literals: ['True', 'False', 'None'],
+    types: ['bool', 'bytes', 'dict', 'float', 'int', 'list', 'object', 'set', 'str', 'tuple'],
+    capitalizedTypes: true
+};
+
+const SHELL: Grammar = {
+    rules: [
+        ['meta', /^#!.*/],
+        ['comment', /(?<=^|[\s;])#.*/],
+        DOUBLE_STRING, SINGLE_STRING,
+        ['variable', /\$(?:\{[^}\n]*\}|\w+|[@#?$!*-])/],
+        ['number', /\b\d+\b/]
+    ],
+    keywords: [
+        'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'readonly',
+        'return', 'select', 'then', 'until', 'while'
+    ],
+    literals: ['true', 'false']
+};
+
+const JSON_GRAMMAR: Grammar = {
+    rules: [
+        LINE_COMMENT, BLOCK_COMMENT,
+        ['property', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/],
+        DOUBLE_STRING,
+        ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/]
+    ],
+    literals: ['true', 'false', 'null']
+};
+
+const YAML: Grammar = {
+    rules: [
+        ['comment', /(?<=^|\s)#.*/],
+        ['meta', /(?<=^|\n)(?:---|\.\.\.)(?=\s|$)|[&*][\w-]+|!!?[\w-]*/],
+        // Keys are only looked for at the start of a line or list item, and after `{` or `,` in flow mappings
+        [afterPlainPrefix(/^[ \t]*(?:-[ \t]+)*/, 'property'), /(?<=^|\n)[ \t]*(?:-[ \t]+)*[^\s#:'"[\]{},-][^:#\n]*?(?=:(?:[ \t]|\n|$))/],
+        [afterPlainPrefix(/^[{,][ \t]*/, 'property'), /[{,][ \t]*[\w.-]+(?=:(?:[ \t]|\n|$))/],
+        DOUBLE_STRING, SINGLE_STRING,
+        ['number', /[-+]?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?(?=\s|$|[,\]}])/]
+    ],
+    literals: ['true', 'false', 'null', 'yes', 'no', 'on', 'off']
+};
+
+const TOML: Grammar = {
+    rules: [
+        ['comment', /[#;].*/],
+        ['section', /(?<=^|\n)[ \t]*\[[^\]\n]*\]+/],
+        ['property', /[\w.-]+(?=[ \t]*=)/],
+        ['string', /("""|''')[\s\S]*?(?:\1|$)/],
+        DOUBLE_STRING, SINGLE_STRING,
+        NUMBER
+    ],
+    literals: ['true', 'false']
+};
+
+const CSS: Grammar = {
+    rules: [
+        BLOCK_COMMENT, LINE_COMMENT, DOUBLE_STRING, SINGLE_STRING,
+        ['meta', /@[\w-]+/],
+        [afterPlainPrefix(/^[{;]\s*/, 'property'), /[{;]\s*-{0,2}[\w-]+(?=\s*:)/],
+        ['variable', /--[\w-]+|\$[\w-]+/],
+        ['number', /#[\da-fA-F]{3,8}\b|-?(?:\d+\.?\d*|\.\d+)(?:%|[a-zA-Z]+)?/],
+        ['type', /[.#][A-Za-z_-][\w-]*/],
+        ['keyword', /!important\b/]
+    ]
+};
+
+const MARKUP_TAG: Grammar = {
+    rules: [
+        ['tag', /^<\/?[\w:.-]+/],
+        ['attribute', /[^\s"'>/=]+(?=\s*=)/],
+        DOUBLE_STRING, SINGLE_STRING
+    ]
+};
+
+const MARKUP: Grammar = {
+    rules: [
+        ['comment', /<!--[\s\S]*?(?:-->|$)/],
+        ['meta', /<![A-Za-z][^>]*>|<\?[\s\S]*?(?:\?>|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)/],
+        [text => tokenize(text, compiledGrammar(MARKUP_TAG)), /<\/?[\w:.-]+(?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*\s*\/?>/],
+        ['variable', /&(?:#\d+|#x[\da-fA-F]+|\w+);/]
+    ]
+};
+
+const JAVA: Grammar = {
+    rules: [LINE_COMMENT, BLOCK_COMMENT, ['string', /"""[\s\S]*?(?:"""|$)/], DOUBLE_STRING, CHAR_LITERAL, ['meta', /@\w+/], NUMBER],
+    keywords: [
+        'abstract', 'assert', 'break', 'case', 'catch', 'class', 'continue', 'default', 'do', 'else', 'enum', 'extends',
+        'final', 'finally', 'for', 'if', 'implements', 'import', 'instanceof', 'interface', 'new', 'package', 'private',
+        'protected', 'public', 'record', 'return', 'static', 'super', 'switch', 'synchronized', 'this', 'throw',
+        'throws', 'try', 'var', 'volatile', 'while'
+    ],
+    literals: ['true', 'false', 'null'],
+    types: ['boolean', 'byte', 'char', 'double', 'float', 'int', 'long', 'short', 'void'],
+    capitalizedTypes: true
+};
+
+const C: Grammar = {
+    rules: [LINE_COMMENT, BLOCK_COMMENT, ['meta', /(?<=^|\n)[ \t]*#[ \t]*\w+.*/], DOUBLE_STRING, CHAR_LITERAL, NUMBER],
+    keywords: C_FAMILY_KEYWORDS,
+    literals: ['NULL', 'true', 'false'],
+    types: C_TYPES
+};
+
+const CPP: Grammar = {
+    ...C,
+    keywords: [
+        ...C_FAMILY_KEYWORDS, 'catch', 'class', 'constexpr', 'decltype', 'delete', 'explicit', 'friend', 'mutable',
+        'namespace', 'new', 'noexcept', 'operator', 'override', 'private', 'protected', 'public', 'template', 'this',
+        'throw', 'try', 'typename', 'using', 'virtual'
+    ],
+    literals: ['nullptr', 'true', 'false', 'NULL'],
+    types: [...C_TYPES, 'auto', 'string', 'vector'],
+    capitalizedTypes: true
+};
+
+const CSHARP: Grammar = {
+    rules: [LINE_COMMENT, BLOCK_COMMENT, ['string', /[$@]{1,2}"(?:[^"]|"")*"?/], DOUBLE_STRING, CHAR_LITERAL, ['meta', /(?<=^|\n)[ \t]*#\w+.*/], NUMBER],
+    keywords: [
+        'abstract', 'as', 'async', 'await', 'base', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default',
+        'delegate', 'do', 'else', 'enum', 'event', 'explicit', 'extern', 'finally', 'fixed', 'for', 'foreach', 'get',
+        'if', 'implicit', 'in', 'interface', 'internal', 'is', 'lock', 'namespace', 'new', 'operator', 'out', 'override',
+        'params', 'private', 'protected', 'public', 'readonly', 'record', 'ref', 'return', 'sealed', 'set', 'static',
+        'struct', 'switch', 'this', 'throw', 'try', 'typeof', 'using', 'var', 'virtual', 'void', 'while', 'yield'
+    ],
+    literals: ['true', 'false', 'null'],
+    types: ['bool', 'byte', 'char', 'decimal', 'double', 'float', 'int', 'long', 'object', 'short', 'string', 'uint', 'ulong'],
+    capitalizedTypes: true
+};
+
+const GO: Grammar = {
+    rules: [LINE_COMMENT, BLOCK_COMMENT, ['string', /`[^`]*`?/], DOUBLE_STRING, CHAR_LITERAL, NUMBER],
+    keywords: [
+        'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go',
+        'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var'
+    ],
+    literals: ['true', 'false', 'nil', 'iota'],
+    types: [
+        'any', 'bool', 'byte', 'complex128', 'error', 'float32', 'float64', 'int', 'int8', 'int16', 'int32', 'int64',
+        'rune', 'string', 'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr'
+    ]
+};
+
+const RUST: Grammar = {
+    rules: [
+        LINE_COMMENT, BLOCK_COMMENT,
+        ['string', /b?r(#*)"[\s\S]*?(?:"\1|$)/],
+        ['string', /b?"(?:[^"\\]|\\[\s\S])*"?/],
+        ['string', /b?'(?:[^'\\\n]|\\.[^']*)'/],
+        ['meta', /#!?\[[^\]\n]*\]/],
+        ['function', /[A-Za-z_]\w*!(?=\s*[([{])/],
+        NUMBER
+    ],
+    keywords: [
+        'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'fn', 'for', 'if',
+        'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'static', 'struct',
+        'super', 'trait', 'type', 'unsafe', 'use', 'where', 'while'
+    ],
+    literals: ['true', 'false', 'None', 'Some', 'Ok', 'Err'],
+    types: [
+        'bool', 'char', 'f32', 'f64', 'i8', 'i16', 'i32', 'i64', 'i128', 'isize', 'str', 'u8', 'u16', 'u32', 'u64',
+        'u128', 'usize'
+    ],
+    capitalizedTypes: true
+};
+
+const RUBY: Grammar = {
+    rules: [
+        HASH_COMMENT, DOUBLE_STRING, SINGLE_STRING,
+        ['literal', /:[A-Za-z_]\w*[?!]?/],
+        ['variable', /@@?\w+|\$\w+/],
+        NUMBER
+    ],
+    keywords: [
+        'alias', 'and', 'begin', 'break', 'case', 'class', 'def', 'defined?', 'do', 'else', 'elsif', 'end', 'ensure',
+        'for', 'if', 'in', 'module', 'next', 'not', 'or', 'redo', 'require', 'rescue', 'retry', 'return', 'self',
+        'super', 'then', 'unless', 'until', 'when', 'while', 'yield'
+    ],
+    literals: ['true', 'false', 'nil'],
+    capitalizedTypes: true
+};
+
+const SQL: Grammar = {
+    rules: [['comment', /--.*/], BLOCK_COMMENT, ['string', /'(?:[^']|'')*'?/], ['property', /"[^"\n]*"|`[^`\n]*`/], NUMBER],
+    keywords: [
+        'ADD', 'ALL', 'ALTER', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CHECK', 'COLUMN', 'CONSTRAINT', 'CREATE',
+        'DEFAULT', 'DELETE', 'DESC', 'DISTINCT', 'DROP', 'ELSE', 'END', 'EXISTS', 'FOREIGN', 'FROM', 'FULL', 'GROUP',
+        'HAVING', 'IF', 'IN', 'INDEX', 'INNER', 'INSERT', 'INTO', 'IS', 'JOIN', 'KEY', 'LEFT', 'LIKE', 'LIMIT', 'NOT',
+        'OFFSET', 'ON', 'OR', 'ORDER', 'OUTER', 'PRIMARY', 'REFERENCES', 'RETURNING', 'RIGHT', 'SELECT', 'SET', 'TABLE',
+        'THEN', 'UNION', 'UNIQUE', 'UPDATE', 'VALUES', 'VIEW', 'WHEN', 'WHERE', 'WITH'
+    ],
+    literals: ['NULL', 'TRUE', 'FALSE'],
+    types: ['BIGINT', 'BOOLEAN', 'CHAR', 'DATE', 'DECIMAL', 'FLOAT', 'INT', 'INTEGER', 'JSON', 'NUMERIC', 'REAL', 'SERIAL', 'TEXT', 'TIMESTAMP', 'UUID', 'VARCHAR'],
+    caseInsensitive: true
+};
+
+const DIFF: Grammar = {
+    rules: [
+        ['meta', /(?<=^|\n)(?:\+\+\+|---|diff |index ).*/],
+        ['section', /(?<=^|\n)@@.*/],
+        ['inserted', /(?<=^|\n)[+>].*/],
+        ['deleted', /(?<=^|\n)[-<].*/]
+    ]
+};
+
+const GRAMMARS = new Map<string, Grammar>([
+    ['javascript', JAVASCRIPT], ['js', JAVASCRIPT], ['jsx', JAVASCRIPT], ['mjs', JAVASCRIPT], ['cjs', JAVASCRIPT],
+    ['typescript', TYPESCRIPT], ['ts', TYPESCRIPT], ['tsx', TYPESCRIPT], ['mts', TYPESCRIPT], ['cts', TYPESCRIPT],
+    ['python', PYTHON], ['py', PYTHON], ['python3', PYTHON],
+    ['bash', SHELL], ['sh', SHELL], ['shell', SHELL], ['zsh', SHELL],
+    ['json', JSON_GRAMMAR], ['jsonc', JSON_GRAMMAR], ['json5', JSON_GRAMMAR],
+    ['yaml', YAML], ['yml', YAML],
+    ['toml', TOML], ['ini', TOML],
+    ['css', CSS], ['scss', CSS], ['less', CSS],
+    ['html', MARKUP], ['xml', MARKUP], ['svg', MARKUP], ['xhtml', MARKUP], ['vue', MARKUP],
+    ['java', JAVA],
+    ['c', C], ['h', C],
+    ['cpp', CPP], ['c++', CPP], ['cc', CPP], ['cxx', CPP], ['hpp', CPP],
+    ['csharp', CSHARP], ['cs', CSHARP], ['c#', CSHARP],
+    ['go', GO], ['golang', GO],
+    ['rust', RUST], ['rs', RUST],
+    ['ruby', RUBY], ['rb', RUBY],
+    ['sql', SQL],
+    ['diff', DIFF], ['patch', DIFF]
+]);
+
+const compiled = new Map<Grammar, CompiledGrammar>();
+
+/**
+ * Splits a fence info string such as `ts {1,3-5}` into its language and highlighted lines
+ */
+export function parseFenceInfo(info: string): FenceInfo {
+    const match = FENCE_INFO_REGEX.exec(info.trim())!;
+    const highlightedLines: LineRange[] = [];
+
+    // Ranges are kept as typed rather than expanded, since `{1-99999999}` is easy to type
+    for (const part of (match[2] ?? '').split(',')) {
+        const [start, end] = part.split('-').map(value => Number(value.trim()));
+        if (Number.isInteger(start) && start > 0) {
+            highlightedLines.push({ start, end: Number.isInteger(end) && end >= start ? end : start });
+        }
+    }
+
+    return { language: match[1].toLowerCase(), highlightedLines };
+}
+
+/**
+ * Splits code into highlighted tokens; code in an unknown language is one plain token
+ */
+export function tokenizeCode(code: string, language: string): HighlightToken[] {
+    const grammar = GRAMMARS.get(language.toLowerCase());
+    return grammar ? tokenize(code, compiledGrammar(grammar)) : [{ kind: null, text: code }];
+}
+
+/**
+ * Renders code as escaped HTML for a `<code>` element: one `code-line` span
+ * per line, with `highlighted-line` added to the given lines (1-based)
+ */
+export function highlightCode(code: string, language: string, highlightedLines: LineRange[] = []): string {
+    const lines: string[] = [''];
+
+    for (const token of tokenizeCode(code.replace(/\n$/, ''), language)) {
+        token.text.split('\n').forEach((part, index) => {
+            if (index > 0) {
+                lines.push('');
+            }
+            if (part) {
+                lines[lines.length - 1] += token.kind ? `<span class="tok-${token.kind}">${escapeHtml(part)}</span>` : escapeHtml(part);
+            }
+        });
+    }
+
+    return lines
+        .map((line, index) => {
+            const highlighted = highlightedLines.some(range => index + 1 >= range.start && index + 1 <= range.end);
+            const classes = highlighted ? 'code-line highlighted-line' : 'code-line';
+            return `<span class="${classes}">${line}${index < lines.length - 1 ? '\n' : ''}</span>`;
+        })
+        .join('');
+}
+
+function compiledGrammar(grammar: Grammar): CompiledGrammar {
+    let result = compiled.get(grammar);
+    if (!result) {
+        const normalize = (word: string) => grammar.caseInsensitive ? word.toUpperCase() : word;
+        result = {
+            rules: grammar.rules.map(([kind, regex]) => [kind, new RegExp(regex.source, regex.flags.replace('y', '') + 'y')]),
+            keywords: new Set((grammar.keywords ?? []).map(normalize)),
+            literals: new Set((grammar.literals ?? []).map(normalize)),
+            types: new Set((grammar.types ?? []).map(normalize)),
+            capitalizedTypes: grammar.capitalizedTypes ?? false,
+            caseInsensitive: grammar.caseInsensitive ?? false
+        };
+        compiled.set(grammar, result);
+    }
+    return result;
+}
+
+function tokenize(code: string, grammar: CompiledGrammar): HighlightToken[] {
+    const tokens: HighlightToken[] = [];
+    const push = (kind: HighlightKind | null, text: string) => {
+        const last = tokens[tokens.length - 1];
+        if (last && last.kind === kind) {
+            last.text += text;
+        } else {
+            tokens.push({ kind, text });
+        }
+    };
+
+    let position = 0;
+    outer: while (position < code.length) {
+        for (const [kind, regex] of grammar.rules) {
+            regex.lastIndex = position;
+            const match = regex.exec(code);
+            if (match && match[0]) {
+                if (typeof kind === 'function') {
+                    kind(match[0]).forEach(token => push(token.kind, token.text));
+                } else {
+                    push(kind, match[0]);
+                }
+                position += match[0].length;
+                continue outer;
+            }
+        }
+
+        IDENTIFIER_REGEX.lastIndex = position;
+        const identifier = IDENTIFIER_REGEX.exec(code);
+        if (identifier) {
+            const word = identifier[0];
+            position += word.length;
+            CALL_REGEX.lastIndex = position;
+            push(classifyWord(word, grammar, CALL_REGEX.test(code)), word);
+            continue;
+        }
+
+        push(null, code[position]);
+        position++;
+    }
+
+    return tokens;
+}
+
+function classifyWord(word: string, grammar: CompiledGrammar, isCall: boolean): HighlightKind | null {
+    const key = grammar.caseInsensitive ? word.toUpperCase() : word;
+    if (grammar.keywords.has(key)) {
+        return 'keyword';
+    }
+    if (grammar.literals.has(key)) {
+        return 'literal';
+    }
+    if (grammar.types.has(key) || (grammar.capitalizedTypes && /^[A-Z]/.test(word) && !isCall)) {
+        return 'type';
+    }
+    return isCall ? 'function' : null;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
@@ -0,0 +1,190 @@
+/**
+ * Table Formatter
+ * Re-lays out GFM pipe tables: padded columns for reading, or no padding at all for AI context
+ */
+
+/**
+ * How a profile lays out pipe tables: padded to aligned columns, stripped to the
+ * minimum, or kept as written
+ */
+export type TableStyle = 'aligned' | 'minimal' | 'preserve';
+
+type ColumnAlignment = 'none' | 'left' | 'center' | 'right';
+
+interface ParsedTable {
+    header: string[];
+    alignments: ColumnAlignment[];
+    rows: string[][];
+}
+
+const DELIMITER_CELL_REGEX = /^:?-+:?$/;
+const WIDE_RANGES: [number, number][] = [
+    [0x1100, 0x115f],
+    [0x2e80, 0x303e],
+    [0x3041, 0x33ff],
+    [0x3400, 0x4dbf],
+    [0x4e00, 0x9fff],
+    [0xa000, 0xa4cf],
+    [0xac00, 0xd7a3],
+    [0xf900, 0xfaff],
+    [0xfe30, 0xfe4f],
+    [0xff00, 0xff60],
+    [0xffe0, 0xffe6],
+    [0x20000, 0x3fffd]
+];
+
+/**
+ * Formats the source lines of a table in the given style. Returns the lines
+ * unchanged if they do not form a table with a valid delimiter row.
+ */
+export function formatTable(lines: string[], style: TableStyle): string[] {
+    const table = style === 'preserve' ? null : parseTable(lines);
+    if (!table) {
+        return lines;
+    }
+
+    const columnCount = table.header.length;
+    const allRows = [table.header, ...table.rows];
+
+    if (style === 'minimal') {
+        const delimiter = table.alignments.map(alignment => delimiterCell(alignment, 1));
+        return [table.header, delimiter, ...table.rows].map(cells => `|${cells.join('|')}|`);
+    }
+
+    // Delimiter cells need room for both alignment colons and a dash
+    const widths = table.header.map((_, column) => Math.max(
+        3,
+        ...allRows.map(cells => displayWidth(cells[column] ?? ''))
+    ));
+    const renderRow = (cells: string[]) => {
+        const padded = cells.map((cell, column) => column < columnCount ? padCell(cell, widths[column], table.alignments[column]) : cell);
+        return `| ${padded.join(' | ')} |`;
+    };
+
+    const delimiter = table.alignments.map((alignment, column) => delimiterCell(alignment, widths[column]));
+    return [renderRow(table.header), `| ${delimiter.join(' | ')} |`, ...table.rows.map(renderRow)];
+}
+
+/**
+ * Number of terminal columns a string occupies: CJK and emoji take two, combining
+ * marks, variation selectors and joined emoji parts take none
+ */
+export function displayWidth(text: string): number {
+    let width = 0;
+    let joinNext = false;
+    let regionalIndicators = 0;
+
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+
+        if (code === 0x200d) {
+            joinNext = true;
+            continue;
+        }
+        if (joinNext || /\p{M}/u.test(char) || (code >= 0xfe00 && code <= 0xfe0f)) {
+            joinNext = false;
+            continue;
+        }
+
+        if (/\p{Regional_Indicator}/u.test(char)) {
+            // Two regional indicators form one flag
+            width += regionalIndicators++ % 2 === 0 ? 2 : 0;
+        } else if (/\p{Emoji_Presentation}/u.test(char) || WIDE_RANGES.some(([start, end]) => code >= start && code <= end)) {
+            width += 2;
+        } else {
+            width += 1;
+        }
+    }
+
+    return width;
+}
+
+function parseTable(lines: string[]): ParsedTable | null {
+    if (lines.length < 2) {
+        return null;
+    }
+
+    const header = splitRow(lines[0]);
+    const delimiter = splitRow(lines[1]);
+    if (header.length === 0 || delimiter.length !== header.length || !delimiter.every(cell => DELIMITER_CELL_REGEX.test(cell))) {
+        return null;
+    }
+
+    // Missing cells render empty, so they are written out; extra cells are kept as written
+    const rows = lines.slice(2).map(line => {
+        const cells = splitRow(line);
+        while (cells.length < header.length) {
+            cells.push('');
+        }
+        return cells;
+    });
+
+    return { header, alignments: delimiter.map(parseAlignment), rows };
+}
+
+/**
+ * Splits a row into trimmed cells the way markdown-it does: a pipe after a
+ * backslash is part of the cell, and outer pipes are optional
+ */
+function splitRow(line: string): string[] {
+    const text = line.trim();
+    const cells: string[] = [];
+    let current = '';
+    let isEscaped = false;
+
+    for (const char of text) {
+        if (char === '|' && !isEscaped) {
+            cells.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+        isEscaped = char === '\\';
+    }
+    cells.push(current);
+
+    if (cells.length > 0 && cells[0] === '') {
+        cells.shift();
+    }
+    if (cells.length > 0 && cells[cells.length - 1] === '') {
+        cells.pop();
+    }
+
+    return cells.map(cell => cell.trim());
+}
+
+function parseAlignment(cell: string): ColumnAlignment {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) {
+        return 'center';
+    }
+    return left ? 'left' : right ? 'right' : 'none';
+}
+
+function delimiterCell(alignment: ColumnAlignment, width: number): string {
+    switch (alignment) {
+        case 'left':
+            return `:${'-'.repeat(Math.max(1, width - 1))}`;
+        case 'right':
+            return `${'-'.repeat(Math.max(1, width - 1))}:`;
+        case 'center':
+            return `:${'-'.repeat(Math.max(1, width - 2))}:`;
+        default:
+            return '-'.repeat(width);
+    }
+}
+
+function padCell(cell: string, width: number, alignment: ColumnAlignment): string {
+    const padding = Math.max(0, width - displayWidth(cell));
+    switch (alignment) {
+        case 'right':
+            return ' '.repeat(padding) + cell;
+        case 'center': {
+            const left = Math.floor(padding / 2);
+            return ' '.repeat(left) + cell + ' '.repeat(padding - left);
+        }
+        default:
+            return cell + ' '.repeat(padding);
+    }
+}
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { exportForAI, isBadge } from '../../aiExport';
+import { compactFormat } from '../../markdownFormatter';
+
+const README = [
+	'<!-- markdown-angel: human -->',
+	'',
+	'# Project',
+	'[![Build](https://img.shields.io/build.svg)](https://ci.example) [![npm](https://badge.fury.io/js/x.svg)](https://npm.example)',
+	'',
+	'[[toc]]',
+	'',
+	'See [the docs](https://docs.example) and ![the diagram](diagram.png "Diagram") <!-- todo --> `<!-- kept -->`.',
+	'Also [a reference][docs].',
+	'',
+	'```html',
+	'<!-- code -->',
+	'[[toc]]',
+	'```',
+	'',
+	'[docs]: https://docs.example',
+	''
+].join('\n');
+
+suite('AI Export Test Suite', () => {
+	test('Should only compact the document without filters', () => {
+		assert.strictEqual(exportForAI(README, {}), compactFormat(README));
+	});
+
+	test('Should apply every filter outside code', () => {
+		const filters = { stripHtmlComments: true, stripBadges: true, imagesToAltText: true, stripLinkUrls: true, stripTocMarker: true };
+		assert.strictEqual(exportForAI(README, filters), [
+			'# Project',
+			'See the docs and the diagram `<!-- kept -->`.',
+			'Also a reference.',
+			'```html',
+			'<!-- code -->',
+			'[[toc]]',
+			'```',
+			''
+		].join('\n'));
+	});
+
+	test('Should keep links around images that are not badges', () => {
+		const input = 'Logo: [![logo](logo.png)](https://example.com) and ![badge](https://img.shields.io/x.svg)\n';
+		assert.strictEqual(exportForAI(input, { stripBadges: true }), 'Logo: [![logo](logo.png)](https://example.com) and\n');
+		assert.strictEqual(exportForAI(input, { imagesToAltText: true }), 'Logo: [logo](https://example.com) and badge\n');
+	});
+
+	test('Should recognize badge services', () => {
+		assert.ok(isBadge('https://img.shields.io/npm/v/x.svg'));
+		assert.ok(isBadge('https://github.com/o/r/actions/workflows/ci.yml/badge.svg'));
+		assert.ok(!isBadge('https://example.com/screenshot.png'));
+		assert.ok(!isBadge('badge.svg'));
+	});
+});
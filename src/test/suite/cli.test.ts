@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CliIo, runCli } from '../../cli';
+
+function createIo(stdin = ''): CliIo & { out: string; err: string } {
+	const io = {
+		out: '',
+		err: '',
+		readStdin: () => Promise.resolve(stdin),
+		stdout: (text: string) => { io.out += text; },
+		stderr: (text: string) => { io.err += text; }
+	};
+	return io;
+}
+
+suite('CLI Test Suite', () => {
+	let directory: string;
+
+	setup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-angel-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('Should format stdin to stdout', async () => {
+		const io = createIo('# Title\n\n\nText\n');
+		assert.strictEqual(await runCli(['compact'], io), 0);
+		assert.strictEqual(io.out, '# Title\nText\n');
+	});
+
+	test('Should fail --check for files not in the mode', async () => {
+		const file = path.join(directory, 'doc.md');
+		fs.writeFileSync(file, '# Title\n\nText\n');
+		const io = createIo();
+		assert.strictEqual(await runCli(['check', file], io), 1);
+		assert.strictEqual(await runCli(['check', '--mode', 'human', file], createIo()), 0);
+	});
+
+	test('Should write formatted files', async () => {
+		const file = path.join(directory, 'doc.md');
+		fs.writeFileSync(file, '# Title\nText\n- a\n- b\n');
+		assert.strictEqual(await runCli(['human', '--write', directory], createIo()), 0);
+		assert.strictEqual(fs.readFileSync(file, 'utf8'), '# Title\n\nText\n\n- a\n\n- b\n');
+	});
+
+	test('Should detect modes', async () => {
+		const io = createIo('# Title\nText\n- a\n- b\n');
+		assert.strictEqual(await runCli(['detect'], io), 0);
+		assert.strictEqual(io.out, 'compact\n');
+	});
+
+	test('Should check files in the mode of their directive or default mode glob', async () => {
+		const config = path.join(directory, '.vscode', 'settings.json');
+		fs.mkdirSync(path.dirname(config));
+		fs.writeFileSync(config, '{\n  // Comments and trailing commas are allowed\n  "markdown-angel.defaultModes": { "docs/**": "human", },\n}\n');
+		fs.mkdirSync(path.join(directory, 'docs'));
+		fs.writeFileSync(path.join(directory, 'docs', 'guide.md'), '# Guide\n\nText\n');
+		fs.writeFileSync(path.join(directory, 'notes.md'), '<!-- markdown-angel: human -->\n\n\n# Notes\n\nText\n');
+		fs.writeFileSync(path.join(directory, 'prompt.md'), '# Prompt\nText\n');
+
+		const io = createIo();
+		assert.strictEqual(await runCli(['check', '--config', config, directory], io), 0, io.err);
+		assert.strictEqual(await runCli(['check', '--config', config, '--mode', 'compact', directory], createIo()), 1);
+	});
+
+	test('Should apply profiles and formatting settings from the settings file', async () => {
+		const config = path.join(directory, 'settings.json');
+		fs.writeFileSync(config, [
+			'{',
+			'  "markdown-angel.profiles": [{ "name": "review", "extends": "human", "blankLinesBetweenListItems": 0 }],',
+			'  "markdown-angel.style": { "bulletMarker": "-" }',
+			'}'
+		].join('\n'));
+		const io = createIo('# Title\n* a\n* b\n');
+		assert.strictEqual(await runCli(['check', '--config', config, '--mode', 'review'], io), 1);
+
+		const file = path.join(directory, 'doc.md');
+		fs.writeFileSync(file, '<!-- markdown-angel: review -->\n\n\n# Title\n\n- a\n- b\n');
+		assert.strictEqual(await runCli(['check', '--config', config, file], createIo()), 0);
+	});
+
+	test('Should report and skip directory entries that cannot be read', async () => {
+		const file = path.join(directory, 'doc.md');
+		fs.writeFileSync(file, '# Title\nText\n');
+		fs.symlinkSync(path.join(directory, 'missing.md'), path.join(directory, 'broken.md'));
+		const io = createIo();
+		assert.strictEqual(await runCli(['check', directory], io), 1);
+		assert.ok(io.err.includes('broken.md'));
+		assert.ok(!io.err.includes('doc.md'));
+	});
+
+	test('Should reject unknown commands', async () => {
+		const io = createIo();
+		assert.strictEqual(await runCli(['shrink'], io), 2);
+		assert.ok(io.err.includes('Unknown command'));
+	});
+});
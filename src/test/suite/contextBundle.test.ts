@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { bundleMarkdownFiles } from '../../contextBundle';
+
+const SPEC = [
+	'---',
+	'title: Spec',
+	'---',
+	'# Spec',
+	'See [the API](api/index.md#usage), [setup](#setup), [the web](https://example.com) and [elsewhere](other.md).',
+	'',
+	'',
+	'## Setup',
+	'Run [it][ref].',
+	'',
+	'[ref]: ./api/index.md',
+	''
+].join('\n');
+
+const API = [
+	'API',
+	'===',
+	'Back to [the spec](../spec.md).',
+	'',
+	'## Usage',
+	'Text with [ref].',
+	'',
+	'## Setup',
+	'',
+	'[ref]: https://example.com/ref',
+	''
+].join('\n');
+
+suite('Context Bundle Test Suite', () => {
+	test('Should add path headers, compact and demote headings', () => {
+		const bundle = bundleMarkdownFiles([{ path: 'notes.md', markdown: '# Notes\n\n\n\nText\n\n###### Deep\n' }]);
+		assert.strictEqual(bundle, '# notes.md\n## Notes\nText\n\n###### Deep\n');
+	});
+
+	test('Should rewrite links between bundled files to bundle anchors', () => {
+		const bundle = bundleMarkdownFiles([
+			{ path: 'docs/spec.md', markdown: SPEC },
+			{ path: 'docs/api/index.md', markdown: API }
+		]);
+		assert.strictEqual(bundle, [
+			'# docs/spec.md',
+			'```yaml',
+			'title: Spec',
+			'```',
+			'## Spec',
+			'See [the API](#usage), [setup](#setup), [the web](https://example.com) and [elsewhere](other.md).',
+			'',
+			'### Setup',
+			'Run [it](#docs%2Fapi%2Findex.md).',
+			'',
+			'[ref]: ./api/index.md',
+			'',
+			'# docs/api/index.md',
+			'## API',
+			'Back to [the spec](#docs%2Fspec.md).',
+			'',
+			'### Usage',
+			'Text with [ref](https://example.com/ref).',
+			'',
+			'### Setup',
+			'',
+			'[ref]: https://example.com/ref',
+			''
+		].join('\n'));
+	});
+
+	test('Should point links at the numbered anchors of repeated headings', () => {
+		const bundle = bundleMarkdownFiles([
+			{ path: 'a.md', markdown: '## Setup\nOne\n' },
+			{ path: 'b.md', markdown: '## Setup\nSee [a](a.md#setup) and [b](#setup).\n' }
+		]);
+		assert.ok(bundle.includes('See [a](#setup) and [b](#setup-1).'));
+	});
+});
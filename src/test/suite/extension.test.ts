@@ -1,6 +1,44 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { before } from 'mocha';
+import { MarkdownFormattingProvider } from '../../formattingProvider';
+import { ModeManager } from '../../modeManager';
+
+function createContext(): vscode.ExtensionContext & { state: Map<string, unknown> } {
+	const state = new Map<string, unknown>();
+	return {
+		state,
+		subscriptions: [],
+		workspaceState: {
+			keys: () => [...state.keys()],
+			get: (key: string, defaultValue?: unknown) => state.has(key) ? state.get(key) : defaultValue,
+			update: (key: string, value: unknown) => {
+				state.set(key, value);
+				return Promise.resolve();
+			}
+		}
+	} as unknown as vscode.ExtensionContext & { state: Map<string, unknown> };
+}
+
+function applyEdits(document: vscode.TextDocument, edits: vscode.TextEdit[]): string {
+	let text = document.getText();
+	for (const edit of [...edits].reverse()) {
+		text = text.substring(0, document.offsetAt(edit.range.start)) + edit.newText + text.substring(document.offsetAt(edit.range.end));
+	}
+	return text;
+}
+
+const RANGE_DOCUMENT = [
+	'# Title', '', '',
+	'- a', '', '- b', '', '',
+	'Para', '',
+	'| a | b |', '| - | - |', '| 1 | 2 |', '', '',
+	'```js', 'x', '', '', 'y', '```', '', '',
+	'Last', ''
+].join('\n');
 
 suite('Extension Test Suite', () => {
 	before(() => {
@@ -33,3 +71,109 @@ suite('Extension Test Suite', () => {
 		assert.ok(commands.includes('markdown-angel.goToTop'));
 	});
 });
+
+suite('Formatting Provider Test Suite', () => {
+	let context: ReturnType<typeof createContext>;
+	let modeManager: ModeManager;
+	let provider: MarkdownFormattingProvider;
+
+	setup(() => {
+		context = createContext();
+		modeManager = new ModeManager(context);
+		provider = new MarkdownFormattingProvider(modeManager);
+	});
+
+	teardown(() => {
+		modeManager.dispose();
+		context.subscriptions.forEach(subscription => subscription.dispose());
+	});
+
+	async function formatSelection(startLine: number, endLine: number): Promise<string> {
+		const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: RANGE_DOCUMENT });
+		await modeManager.setModeForUris([document.uri], 'compact');
+		return applyEdits(document, provider.provideDocumentRangeFormattingEdits(document, new vscode.Range(startLine, 1, endLine, 1)));
+	}
+
+	test('Should widen a selection starting mid-list to the whole list', async () => {
+		assert.strictEqual(await formatSelection(5, 5), RANGE_DOCUMENT.replace('- a\n\n- b', '- a\n- b'));
+	});
+
+	test('Should widen a selection ending mid-list to the whole list', async () => {
+		assert.strictEqual(await formatSelection(0, 3), RANGE_DOCUMENT.replace('# Title\n\n\n- a\n\n- b', '# Title\n- a\n- b'));
+	});
+
+	test('Should widen a selection inside a table to the whole table', async () => {
+		assert.strictEqual(await formatSelection(11, 12), RANGE_DOCUMENT.replace('| a | b |\n| - | - |\n| 1 | 2 |', '|a|b|\n|-|-|\n|1|2|'));
+	});
+
+	test('Should leave a fence alone when the selection is inside it', async () => {
+		assert.strictEqual(await formatSelection(17, 18), RANGE_DOCUMENT);
+	});
+
+	test('Should widen a selection ending mid-fence to the whole fence', async () => {
+		assert.strictEqual(
+			await formatSelection(12, 16),
+			RANGE_DOCUMENT.replace('| a | b |\n| - | - |\n| 1 | 2 |\n\n\n```js', '|a|b|\n|-|-|\n|1|2|\n\n```js')
+		);
+	});
+});
+
+suite('Stored Modes Test Suite', () => {
+	let context: ReturnType<typeof createContext>;
+	let modeManager: ModeManager;
+	let directory: string;
+
+	setup(() => {
+		context = createContext();
+		modeManager = new ModeManager(context);
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-angel-'));
+	});
+
+	teardown(() => {
+		modeManager.dispose();
+		context.subscriptions.forEach(subscription => subscription.dispose());
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	function nextFileModesChange(): Promise<void> {
+		return new Promise(resolve => {
+			const listener = modeManager.onDidChangeFileModes(() => {
+				listener.dispose();
+				resolve();
+			});
+		});
+	}
+
+	test('Should move the stored mode of a renamed file', async () => {
+		const oldUri = vscode.Uri.file(path.join(directory, 'old.md'));
+		const newUri = vscode.Uri.file(path.join(directory, 'new.md'));
+		fs.writeFileSync(oldUri.fsPath, '# Title\n');
+		await modeManager.setModeForUris([oldUri], 'human');
+
+		const changed = nextFileModesChange();
+		const edit = new vscode.WorkspaceEdit();
+		edit.renameFile(oldUri, newUri);
+		assert.ok(await vscode.workspace.applyEdit(edit));
+		await changed;
+
+		assert.deepStrictEqual([...modeManager.getFileModes()], [[newUri.toString(), 'human']]);
+		assert.deepStrictEqual(context.state.get('markdown-angel.fileModes'), { [newUri.toString()]: 'human' });
+	});
+
+	test('Should drop the stored mode of a deleted file', async () => {
+		const keptUri = vscode.Uri.file(path.join(directory, 'kept.md'));
+		const deletedUri = vscode.Uri.file(path.join(directory, 'deleted.md'));
+		fs.writeFileSync(keptUri.fsPath, '# Kept\n');
+		fs.writeFileSync(deletedUri.fsPath, '# Deleted\n');
+		await modeManager.setModeForUris([keptUri, deletedUri], 'human');
+
+		const changed = nextFileModesChange();
+		const edit = new vscode.WorkspaceEdit();
+		edit.deleteFile(deletedUri);
+		assert.ok(await vscode.workspace.applyEdit(edit));
+		await changed;
+
+		assert.deepStrictEqual([...modeManager.getFileModes()], [[keptUri.toString(), 'human']]);
+		assert.deepStrictEqual(context.state.get('markdown-angel.fileModes'), { [keptUri.toString()]: 'human' });
+	});
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { findFrontMatter, maskFrontMatter, parseFrontMatterFields } from '../../frontMatter';
+import { compactFormat, detectCurrentMode, humanFormat } from '../../markdownFormatter';
+import { findSemanticDifferences } from '../../markdownEquivalence';
+import { countTokensByHeading } from '../../tokenCounter';
+
+const YAML_FRONT_MATTER = '---\ntitle: Notes  \ntags:\n\n  - draft\n# not a heading\n---\n';
+const TOML_FRONT_MATTER = '+++\ntitle = "Notes"\n\n[extra]\nkey = 1\n+++\n';
+
+suite('Front Matter Test Suite', () => {
+	test('Should find YAML and TOML front matter', () => {
+		assert.strictEqual(findFrontMatter(YAML_FRONT_MATTER + '# Title\n')?.format, 'yaml');
+		assert.strictEqual(findFrontMatter(YAML_FRONT_MATTER + '# Title\n')?.endLine, 7);
+		assert.strictEqual(findFrontMatter(TOML_FRONT_MATTER + '# Title\n')?.format, 'toml');
+		assert.strictEqual(findFrontMatter('---\ntitle: x\n...\nText')?.raw, '---\ntitle: x\n...\n');
+	});
+
+	test('Should not treat a leading rule or unclosed block as front matter', () => {
+		assert.strictEqual(findFrontMatter('# Title\n---\ntext\n---\n'), null);
+		assert.strictEqual(findFrontMatter('---\ntitle: x\n'), null);
+	});
+
+	test('Should keep line numbers when masking', () => {
+		const masked = maskFrontMatter(YAML_FRONT_MATTER + '# Title\n');
+		assert.strictEqual(masked, '\n\n\n\n\n\n\n# Title\n');
+	});
+
+	test('Should preserve front matter byte-for-byte in both modes', () => {
+		for (const frontMatter of [YAML_FRONT_MATTER, TOML_FRONT_MATTER]) {
+			const input = frontMatter + '\n\n# Title\n\n\nText\n';
+			assert.ok(compactFormat(input).startsWith(frontMatter));
+			assert.ok(humanFormat(input).startsWith(frontMatter));
+			assert.strictEqual(compactFormat(humanFormat(input)), compactFormat(input));
+		}
+	});
+
+	test('Should separate front matter from the body', () => {
+		assert.strictEqual(compactFormat(YAML_FRONT_MATTER + '\n\n# Title\n'), YAML_FRONT_MATTER + '# Title\n');
+		assert.strictEqual(humanFormat(YAML_FRONT_MATTER + '# Title\n'), YAML_FRONT_MATTER + '\n# Title\n');
+	});
+
+	test('Should ignore front matter when detecting the mode', () => {
+		assert.strictEqual(detectCurrentMode(YAML_FRONT_MATTER + '# Title\nText\n- a\n- b\n'), 'compact');
+	});
+
+	test('Should not count front matter lines as headings', () => {
+		const sections = countTokensByHeading(YAML_FRONT_MATTER + '# Title\nText\n');
+		assert.deepStrictEqual(sections.filter(section => section.level > 0).map(section => section.heading), ['Title']);
+	});
+
+	test('Should report edited front matter as a difference', () => {
+		const edited = YAML_FRONT_MATTER.replace('Notes  ', 'Notes') + '# Title\n';
+		assert.strictEqual(findSemanticDifferences(YAML_FRONT_MATTER + '# Title\n', YAML_FRONT_MATTER + '# Title\n').length, 0);
+		assert.strictEqual(findSemanticDifferences(YAML_FRONT_MATTER + '# Title\n', edited).length, 1);
+	});
+
+	test('Should read top-level fields', () => {
+		const fields = parseFrontMatterFields(findFrontMatter(YAML_FRONT_MATTER)!);
+		assert.deepStrictEqual(fields, [['title', 'Notes'], ['tags', '  - draft\n# not a heading']]);
+		assert.deepStrictEqual(parseFrontMatterFields(findFrontMatter(TOML_FRONT_MATTER)!), [['title', '"Notes"']]);
+	});
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { convertToReferenceLinks, inlineReferenceLinks } from '../../linkReferences';
+import { compactFormat, humanFormat } from '../../markdownFormatter';
+import { findSemanticDifferences } from '../../markdownEquivalence';
+
+const INLINE_DOC = [
+	'# Intro',
+	'See [the docs](https://example.com/docs "Docs") and ![logo](logo.png).',
+	'',
+	'## Usage',
+	'Read [the docs](https://example.com/docs "Docs") again or [the API](<https://example.com/a b>).',
+	''
+].join('\n');
+
+suite('Link References Test Suite', () => {
+	test('Should move destinations to the end of the document and share them', () => {
+		assert.strictEqual(convertToReferenceLinks(INLINE_DOC, 'document'), [
+			'# Intro',
+			'See [the docs][1] and ![logo][2].',
+			'',
+			'## Usage',
+			'Read [the docs][1] again or [the API][3].',
+			'',
+			'[1]: https://example.com/docs "Docs"',
+			'[2]: logo.png',
+			'[3]: <https://example.com/a b>',
+			''
+		].join('\n'));
+	});
+
+	test('Should place definitions at the end of the section of their first use', () => {
+		assert.strictEqual(convertToReferenceLinks(INLINE_DOC, 'section'), [
+			'# Intro',
+			'See [the docs][1] and ![logo][2].',
+			'',
+			'[1]: https://example.com/docs "Docs"',
+			'[2]: logo.png',
+			'',
+			'## Usage',
+			'Read [the docs][1] again or [the API][3].',
+			'',
+			'[3]: <https://example.com/a b>',
+			''
+		].join('\n'));
+	});
+
+	test('Should reuse existing definitions and skip taken labels', () => {
+		const input = 'A [x](https://a.example) and [y](https://b.example).\n\n[home]: https://a.example\n[1]: https://c.example\n';
+		assert.strictEqual(
+			convertToReferenceLinks(input, 'document'),
+			'A [x][home] and [y][2].\n\n[home]: https://a.example\n[1]: https://c.example\n\n[2]: https://b.example\n'
+		);
+	});
+
+	test('Should inline single-use references and drop unused definitions', () => {
+		const input = [
+			'Use [x][a], [y][b], [y again][b] and [c].',
+			'',
+			'[a]: https://a.example',
+			'[b]: https://b.example "B"',
+			'[c]: <https://c.example>',
+			'[unused]: https://u.example',
+			'[a]: https://ignored.example',
+			''
+		].join('\n');
+		assert.strictEqual(
+			inlineReferenceLinks(input),
+			'Use [x](https://a.example), [y][b], [y again][b] and [c](<https://c.example>).\n\n[b]: https://b.example "B"\n'
+		);
+	});
+
+	test('Should keep definitions with a title on the next line', () => {
+		const input = 'Use [x][a].\n\n[a]: https://a.example\n  "Title"\n';
+		assert.strictEqual(inlineReferenceLinks(input), input);
+	});
+
+	test('Should keep links in code untouched', () => {
+		const input = 'Code `[x](https://a.example)` and\n\n```\n[y](https://b.example)\n```\n';
+		assert.strictEqual(convertToReferenceLinks(input, 'document'), input);
+	});
+
+	test('Should only apply the link style that matches the mode', () => {
+		const options = { referenceLinks: 'document' as const, inlineReferences: true };
+		assert.strictEqual(compactFormat(INLINE_DOC, options), compactFormat(INLINE_DOC));
+		const human = humanFormat(INLINE_DOC, options);
+		assert.ok(human.includes('[the docs][1]'));
+		assert.deepStrictEqual(findSemanticDifferences(INLINE_DOC, human), []);
+		assert.strictEqual(compactFormat(human, options), [
+			'# Intro',
+			'See [the docs][1] and ![logo](logo.png).',
+			'',
+			'## Usage',
+			'Read [the docs][1] again or [the API](<https://example.com/a b>).',
+			'',
+			'[1]: https://example.com/docs "Docs"',
+			''
+		].join('\n'));
+	});
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { chunkMarkdown, formatChunksAsJsonl } from '../../markdownChunker';
+import { findHeadingAnchors } from '../../headingAnchors';
+
+const DOCUMENT = [
+	'---',
+	'title: Guide',
+	'---',
+	'Intro before the first heading.',
+	'',
+	'# Guide',
+	'Guide intro paragraph one.',
+	'',
+	'Guide intro paragraph two with more words.',
+	'',
+	'## Setup',
+	'Install it.',
+	'',
+	'```sh',
+	'npm install',
+	'```',
+	'',
+	'### Details',
+	'Deep details.',
+	'',
+	'## Usage',
+	'Use it well.',
+	''
+].join('\n');
+
+suite('Markdown Chunker Test Suite', () => {
+	test('Should keep sections whole when they fit', () => {
+		const chunks = chunkMarkdown(DOCUMENT, { maxTokens: 1000 });
+		assert.deepStrictEqual(chunks.map(chunk => [chunk.breadcrumb, chunk.startLine, chunk.endLine]), [
+			[[], 4, 4],
+			[['Guide'], 6, 22]
+		]);
+		assert.ok(!chunks[0].text.includes('title'));
+	});
+
+	test('Should split oversized sections by heading hierarchy', () => {
+		const chunks = chunkMarkdown(DOCUMENT, { maxTokens: 30 });
+		assert.deepStrictEqual(chunks.map(chunk => [chunk.anchor, chunk.breadcrumb, chunk.startLine, chunk.endLine]), [
+			['', [], 4, 4],
+			['guide', ['Guide'], 6, 9],
+			['setup', ['Guide', 'Setup'], 11, 19],
+			['usage', ['Guide', 'Usage'], 21, 22]
+		]);
+		assert.ok(chunks.every(chunk => chunk.tokenCount <= 30));
+	});
+
+	test('Should split section text at block boundaries and keep headings with their first block', () => {
+		const chunks = chunkMarkdown(DOCUMENT, { maxTokens: 10 });
+		assert.deepStrictEqual(chunks.filter(chunk => chunk.anchor === 'guide').map(chunk => chunk.text), [
+			'# Guide\nGuide intro paragraph one.',
+			'Guide intro paragraph two with more words.'
+		]);
+		assert.deepStrictEqual(chunks.find(chunk => chunk.anchor === 'details')?.breadcrumb, ['Guide', 'Setup', 'Details']);
+	});
+
+	test('Should compact chunk text when asked', () => {
+		const [chunk] = chunkMarkdown('# Title\n\n\n\n- item\n', { maxTokens: 100, compact: true });
+		assert.strictEqual(chunk.text, '# Title\n- item');
+		assert.strictEqual(chunk.endLine, 5);
+	});
+
+	test('Should format chunks as JSON Lines', () => {
+		const jsonl = formatChunksAsJsonl(chunkMarkdown('# A\ntext\n', { maxTokens: 100 }), 'docs/a.md');
+		assert.strictEqual(jsonl, '{"source":"docs/a.md","anchor":"a","breadcrumb":["A"],"startLine":1,"endLine":2,"tokenCount":4,"text":"# A\\ntext"}\n');
+	});
+
+	test('Should match the anchors of the viewer', () => {
+		const anchors = findHeadingAnchors('# Hello "World"\n\n> ## Setup\n\n## Setup\n\n## `code` -- www.example.com\n');
+		assert.deepStrictEqual(anchors.map(anchor => [anchor.line, anchor.slug]), [
+			[0, 'hello-%E2%80%9Cworld%E2%80%9D'],
+			[4, 'setup-1'],
+			[6, 'code-%E2%80%93-www.example.com']
+		]);
+	});
+});
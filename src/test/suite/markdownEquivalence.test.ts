@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { compactFormat, humanFormat } from '../../markdownFormatter';
+import { describeDifference, findSemanticDifferences } from '../../markdownEquivalence';
+
+suite('Markdown Equivalence Test Suite', () => {
+	const sample = [
+		'# Title',
+		'Soft wrapped',
+		'paragraph text',
+		'- Item 1',
+		'- Item 2',
+		'',
+		'  Continued',
+		'',
+		'***',
+		'> Quote',
+		'',
+		'~~~js',
+		'const x = 1;',
+		'~~~',
+		''
+	].join('\n');
+
+	test('Should ignore whitespace-only differences', () => {
+		assert.deepStrictEqual(findSemanticDifferences('a\nb\n\n\n- x\n- y\n', 'a\nb\n\n- x\n\n- y\n'), []);
+	});
+
+	test('Should keep both modes semantically equivalent', () => {
+		assert.deepStrictEqual(findSemanticDifferences(sample, compactFormat(sample)), []);
+		assert.deepStrictEqual(findSemanticDifferences(sample, humanFormat(sample)), []);
+	});
+
+	test('Should report a paragraph split in two', () => {
+		const differences = findSemanticDifferences('Line one\nline two\n', 'Line one\n\nline two\n');
+		assert.strictEqual(differences.length, 2);
+		assert.strictEqual(differences[0].type, 'changed');
+		assert.strictEqual(differences[1].type, 'added');
+	});
+
+	test('Should report a setext heading created from a rule', () => {
+		const differences = findSemanticDifferences('Text\n\n---\n', 'Text\n---\n');
+		assert.strictEqual(describeDifference(differences[0]), 'Line 1: paragraph "Text" → h2 heading "Text"');
+	});
+
+	test('Should report code block content changes', () => {
+		const differences = findSemanticDifferences('```\na  \n```\n', '```\na\n```\n');
+		assert.strictEqual(differences.length, 1);
+	});
+});
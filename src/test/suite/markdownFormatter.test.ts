@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { compactFormat, humanFormat } from '../../markdownFormatter';
+import { COMPACT_PROFILE, analyzeMode, compactFormat, detectCurrentMode, formatMarkdown, humanFormat } from '../../markdownFormatter';
 
 suite('Markdown Formatter Test Suite', () => {
 	
@@ -80,6 +80,86 @@ suite('Markdown Formatter Test Suite', () => {
 		});
 	});
 
+	suite('Block Structure', () => {
+		test('Should preserve tilde fences and indented code', () => {
+			const input = '~~~\nconst x = 1;  \n\n\nconst y = 2;\n~~~\n\n    indented\n\n    code\n';
+			assert.ok(compactFormat(input).includes('const x = 1;  \n\n\nconst y = 2;'));
+			assert.ok(humanFormat(input).includes('    indented\n\n    code'));
+		});
+
+		test('Should keep list continuation paragraphs inside their item', () => {
+			const input = '- Item 1\n\n  Continued\n\n- Item 2\n';
+			assert.strictEqual(compactFormat(input), '- Item 1\n\n  Continued\n- Item 2\n');
+		});
+
+		test('Should not split soft-wrapped paragraphs', () => {
+			const input = 'Line one\nline two\n';
+			assert.strictEqual(humanFormat(input), input);
+		});
+
+		test('Should leave placeholder-like text untouched', () => {
+			const input = 'Text with __CODE_BLOCK_0__ and __BLOCKQUOTE_0__\n\n```\ncode\n```\n';
+			assert.ok(compactFormat(input).includes('__CODE_BLOCK_0__ and __BLOCKQUOTE_0__'));
+		});
+
+		test('Should keep a blank line where blocks would otherwise merge', () => {
+			const input = 'Paragraph\n\n---\n\n> Quote\n\nAfter quote\n';
+			assert.strictEqual(compactFormat(input), 'Paragraph\n\n---\n> Quote\n\nAfter quote\n');
+		});
+
+		test('Should be idempotent', () => {
+			const input = '# Title\nText\n- a\n- b\n## Next\n```\ncode\n```\n';
+			assert.strictEqual(humanFormat(humanFormat(input)), humanFormat(input));
+			assert.strictEqual(compactFormat(compactFormat(input)), compactFormat(input));
+		});
+	});
+
+	suite('Format Profiles', () => {
+		test('Should apply custom profile spacing', () => {
+			const review = { ...COMPACT_PROFILE, name: 'review', blankLinesAfterHeading: 1, blankLinesBetweenBlocks: 1 };
+			const input = '# Title\nText\n- a\n- b\n';
+			assert.strictEqual(formatMarkdown(input, review), '# Title\n\nText\n\n- a\n- b\n');
+		});
+
+		test('Should resolve built-in modes by name', () => {
+			const input = '# Title\nText\n';
+			assert.strictEqual(formatMarkdown(input, 'human'), humanFormat(input));
+			assert.strictEqual(formatMarkdown(input, 'compact'), compactFormat(input));
+		});
+	});
+
+	suite('Mode Detection', () => {
+		const document = '# Title\nIntro\n## Section\nText\n- a\n- b\n- c\n## Next\nMore text\n';
+
+		test('Should detect each mode with confidence', () => {
+			const compact = analyzeMode(compactFormat(document))!;
+			const human = analyzeMode(humanFormat(document))!;
+			assert.strictEqual(compact.mode, 'compact');
+			assert.ok(compact.confidence >= 0.5);
+			assert.strictEqual(human.mode, 'human');
+			assert.ok(human.confidence > 0);
+		});
+
+		test('Should report the metrics behind the scores', () => {
+			const detection = analyzeMode('# Title\n\nText\n\n\n\nMore\n')!;
+			assert.strictEqual(detection.metrics.maxConsecutiveBlankLines, 3);
+			assert.strictEqual(detection.metrics.avgHeaderSpacing, 1);
+			assert.ok(detection.humanScore > detection.compactScore);
+		});
+
+		test('Should report zero confidence when the scores tie', () => {
+			const detection = analyzeMode('# Title\nText\n\n\nMore\n')!;
+			assert.strictEqual(detection.compactScore, detection.humanScore);
+			assert.strictEqual(detection.confidence, 0);
+			assert.strictEqual(detectCurrentMode('# Title\nText\n\n\nMore\n'), 'compact');
+		});
+
+		test('Should not analyze empty documents', () => {
+			assert.strictEqual(analyzeMode(''), null);
+			assert.strictEqual(analyzeMode('  \n\n'), null);
+		});
+	});
+
 	suite('Format Roundtrip', () => {
 		test('Compact then human should not lose content', () => {
 			const input = `# Title\n\nParagraph 1\n\nParagraph 2\n\n- Item 1\n- Item 2`;
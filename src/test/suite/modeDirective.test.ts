@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { findModeDirective, setModeDirective } from '../../modeDirective';
+
+suite('Mode Directive Test Suite', () => {
+	test('Should find a directive on its own line', () => {
+		assert.deepStrictEqual(findModeDirective('# Title\n\n<!-- markdown-angel: human -->\nText\n'), { mode: 'human', line: 2 });
+		assert.deepStrictEqual(findModeDirective('<!--markdown-angel:my profile-->\n'), { mode: 'my profile', line: 0 });
+	});
+
+	test('Should ignore directives in code and inline text', () => {
+		assert.strictEqual(findModeDirective('```\n<!-- markdown-angel: human -->\n```\n'), null);
+		assert.strictEqual(findModeDirective('Use `<!-- markdown-angel: human -->` to pin a mode\n'), null);
+		assert.strictEqual(findModeDirective('# Title\n'), null);
+	});
+
+	test('Should ignore directives in front matter', () => {
+		assert.strictEqual(findModeDirective('---\nnote: <!-- markdown-angel: human -->\n---\nText\n'), null);
+	});
+
+	test('Should rewrite an existing directive only', () => {
+		assert.strictEqual(
+			setModeDirective('# Title\n<!-- markdown-angel: human -->\nText\n', 'compact'),
+			'# Title\n<!-- markdown-angel: compact -->\nText\n'
+		);
+		assert.strictEqual(setModeDirective('# Title\n', 'compact'), '# Title\n');
+	});
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { reflowParagraph, splitWords } from '../../paragraphReflow';
+import { compactFormat, humanFormat } from '../../markdownFormatter';
+import { findSemanticDifferences } from '../../markdownEquivalence';
+
+const WRAP = { firstPrefix: '', indent: '', column: 20 };
+const UNWRAP = { firstPrefix: '', indent: '', column: null };
+
+suite('Paragraph Reflow Test Suite', () => {
+	test('Should keep code spans, links and autolinks in one word', () => {
+		assert.deepStrictEqual(
+			splitWords('see `a b` and [the docs](https://x.y "t t") or <https://a.b>'),
+			['see', '`a b`', 'and', '[the docs](https://x.y "t t")', 'or', '<https://a.b>']
+		);
+		assert.deepStrictEqual(splitWords('``a ` b`` ![alt text][ref]'), ['``a ` b``', '![alt text][ref]']);
+	});
+
+	test('Should keep a code span at the start of the text in one word', () => {
+		assert.deepStrictEqual(splitWords('`a b` c'), ['`a b`', 'c']);
+		assert.deepStrictEqual(splitWords('`` `a b` ``'), ['`` `a b` ``']);
+	});
+
+	test('Should wrap at the column and let long words overflow', () => {
+		assert.deepStrictEqual(
+			reflowParagraph(['one two three four five', 'six https://example.com/a/long/path seven'], WRAP),
+			['one two three four', 'five six', 'https://example.com/a/long/path', 'seven']
+		);
+	});
+
+	test('Should not start a line with a block marker', () => {
+		assert.deepStrictEqual(
+			reflowParagraph(['aaaaaaaaaaaaaaaaaa - bb 1. cc # dd'], { ...WRAP, column: 18 }),
+			['aaaaaaaaaaaaaaaaaa -', 'bb 1. cc # dd']
+		);
+	});
+
+	test('Should keep hard breaks when wrapping and unwrapping', () => {
+		const lines = ['one  ', 'two \\', 'three', 'four\\'];
+		assert.deepStrictEqual(reflowParagraph(lines, UNWRAP), ['one  ', 'two \\', 'three four\\']);
+		assert.deepStrictEqual(reflowParagraph(lines, WRAP), ['one  ', 'two \\', 'three four\\']);
+	});
+
+	test('Should indent continuation lines of list items', () => {
+		assert.deepStrictEqual(
+			reflowParagraph(['alpha beta gamma delta'], { firstPrefix: '10. ', indent: '    ', column: 16 }),
+			['10. alpha beta', '    gamma delta']
+		);
+	});
+
+	test('Should keep hard breaks made of trailing spaces', () => {
+		const input = 'Line one   \nline two\\\nthree  \n\nNext\n';
+		assert.strictEqual(compactFormat(input), 'Line one  \nline two\\\nthree\n\nNext\n');
+		assert.deepStrictEqual(findSemanticDifferences(input, compactFormat(input)), []);
+	});
+
+	test('Should reflow paragraphs and list items only when enabled', () => {
+		const input = '# Title\nSome text that\nwas wrapped by hand.\n- an item that\n  continues here\n';
+		assert.strictEqual(compactFormat(input), input);
+		assert.strictEqual(humanFormat(input, { unwrapParagraphs: true }), humanFormat(input));
+		assert.strictEqual(
+			compactFormat(input, { unwrapParagraphs: true }),
+			'# Title\nSome text that was wrapped by hand.\n- an item that continues here\n'
+		);
+		assert.strictEqual(
+			humanFormat(input, { wrapColumn: 12 }),
+			'# Title\n\nSome text\nthat was\nwrapped by\nhand.\n\n- an item\n  that\n  continues\n  here\n'
+		);
+	});
+
+	test('Should not change the rendered document', () => {
+		const input = [
+			'A paragraph with `code spans`, *emphasis*, a [link](https://example.com/path) and  ',
+			'a hard break, then <b>inline HTML</b> and 2 + 2 - 1 = 3.',
+			'',
+			'> Quoted text',
+			'> stays as written',
+			'',
+			'1. First item with text that is long enough to wrap',
+			'   - nested item that is also long enough to wrap',
+			'',
+			'   A second paragraph in the first item',
+			''
+		].join('\n');
+		for (const column of [10, 30, 80]) {
+			assert.deepStrictEqual(findSemanticDifferences(input, humanFormat(input, { wrapColumn: column })), []);
+		}
+		assert.deepStrictEqual(findSemanticDifferences(input, compactFormat(input, { unwrapParagraphs: true })), []);
+	});
+});
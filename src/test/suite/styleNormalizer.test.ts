@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { normalizeStyle } from '../../styleNormalizer';
+import { compactFormat } from '../../markdownFormatter';
+
+suite('Style Normalizer Test Suite', () => {
+	test('Should leave documents alone without rules', () => {
+		const input = 'Title\n===\n\n* a\n* b\n';
+		assert.strictEqual(normalizeStyle(input, {}), input);
+	});
+
+	test('Should unify bullet markers', () => {
+		assert.strictEqual(normalizeStyle('* a\n* b\n  + c\n', { bulletMarker: '-' }), '- a\n- b\n  - c\n');
+	});
+
+	test('Should keep adjacent lists apart', () => {
+		const input = '- a\n- b\n* c\n';
+		assert.strictEqual(normalizeStyle(input, { bulletMarker: '-' }), input);
+	});
+
+	test('Should renumber ordered lists and re-indent their content', () => {
+		const input = '3. a\n3. b\n';
+		assert.strictEqual(normalizeStyle(input, { renumberOrderedLists: true }), '3. a\n4. b\n');
+
+		const long = '1. a\n'.repeat(9) + '1. j\n   more\n   - nested\n';
+		const expected = [...Array(9).keys()].map(index => `${index + 1}. a\n`).join('') + '10. j\n    more\n    - nested\n';
+		assert.strictEqual(normalizeStyle(long, { renumberOrderedLists: true }), expected);
+	});
+
+	test('Should indent nested lists to their parent content', () => {
+		const input = '- a\n    - b\n        - c\n- d\n';
+		assert.strictEqual(normalizeStyle(input, { normalizeListIndentation: true }), '- a\n  - b\n    - c\n- d\n');
+	});
+
+	test('Should convert setext headings', () => {
+		const input = 'Title\n=====\n\nSection\nname\n-------\nText\n';
+		assert.strictEqual(normalizeStyle(input, { atxHeadings: true }), '# Title\n\n## Section name\nText\n');
+	});
+
+	test('Should standardize emphasis markers', () => {
+		const input = 'Some *em*, __strong__ and ***both*** text\n';
+		assert.strictEqual(
+			normalizeStyle(input, { emphasisMarker: '_', strongMarker: '**' }),
+			'Some _em_, **strong** and _**both**_ text\n'
+		);
+	});
+
+	test('Should not use underscores inside words', () => {
+		const input = 'snake*case* and *word*\n';
+		assert.strictEqual(normalizeStyle(input, { emphasisMarker: '_' }), 'snake*case* and _word_\n');
+	});
+
+	test('Should not touch emphasis markers in code', () => {
+		const input = 'Use `*x*` or *y*\n\n```\n*z*\n```\n';
+		assert.strictEqual(normalizeStyle(input, { emphasisMarker: '_' }), 'Use `*x*` or _y_\n\n```\n*z*\n```\n');
+	});
+
+	test('Should lengthen fences that contain the new fence character', () => {
+		const input = '~~~md\n```js\ncode\n```\n~~~\n';
+		assert.strictEqual(normalizeStyle(input, { fenceMarker: '`' }), '````md\n```js\ncode\n```\n````\n');
+	});
+
+	test('Should apply the style when formatting', () => {
+		const input = 'Title\n=====\n\n* a\n* b\n';
+		assert.strictEqual(compactFormat(input, { style: { atxHeadings: true, bulletMarker: '-' } }), '# Title\n- a\n- b\n');
+	});
+});
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { HighlightToken, highlightCode, parseFenceInfo, tokenizeCode } from '../../syntaxHighlighter';
+
+function kinds(tokens: HighlightToken[]): [string, string][] {
+	return tokens.filter(token => token.kind !== null).map(token => [token.kind!, token.text]);
+}
+
+suite('Syntax Highlighter Test Suite', () => {
+	test('Should tokenize TypeScript', () => {
+		assert.deepStrictEqual(kinds(tokenizeCode('const x: string = `a`; // note\nreturn new Map(1, null);', 'ts')), [
+			['keyword', 'const'],
+			['type', 'string'],
+			['string', '`a`'],
+			['comment', '// note'],
+			['keyword', 'return'],
+			['keyword', 'new'],
+			['function', 'Map'],
+			['number', '1'],
+			['literal', 'null']
+		]);
+	});
+
+	test('Should keep multi-line strings and comments whole', () => {
+		assert.deepStrictEqual(kinds(tokenizeCode('def f():\n    """doc\n    more"""\n    return None  # done', 'python')), [
+			['keyword', 'def'],
+			['function', 'f'],
+			['string', '"""doc\n    more"""'],
+			['keyword', 'return'],
+			['literal', 'None'],
+			['comment', '# done']
+		]);
+	});
+
+	test('Should tokenize markup tags and attributes', () => {
+		assert.deepStrictEqual(kinds(tokenizeCode('<a href="x">link</a><!-- c -->', 'html')), [
+			['tag', '<a'],
+			['attribute', 'href'],
+			['string', '"x"'],
+			['tag', '</a'],
+			['comment', '<!-- c -->']
+		]);
+	});
+
+	test('Should find CSS properties and YAML keys without looking behind', () => {
+		assert.deepStrictEqual(kinds(tokenizeCode('a {\n  color: red;\n  --x: 1; }', 'css')), [
+			['property', 'color'],
+			['property', '--x'],
+			['number', '1']
+		]);
+		assert.deepStrictEqual(kinds(tokenizeCode('list:\n  - key: two words\nflow: {a: 1}', 'yaml')), [
+			['property', 'list'],
+			['property', 'key'],
+			['property', 'flow'],
+			['property', 'a'],
+			['number', '1']
+		]);
+	});
+
+	test('Should treat unknown languages as plain text', () => {
+		assert.deepStrictEqual(tokenizeCode('const x = 1', 'unknown'), [{ kind: null, text: 'const x = 1' }]);
+	});
+
+	test('Should parse highlighted lines from fence info', () => {
+		assert.deepStrictEqual(parseFenceInfo('js {1,3-5}'), { language: 'js', highlightedLines: [{ start: 1, end: 1 }, { start: 3, end: 5 }] });
+		assert.deepStrictEqual(parseFenceInfo('Python{2}'), { language: 'python', highlightedLines: [{ start: 2, end: 2 }] });
+		assert.deepStrictEqual(parseFenceInfo(''), { language: '', highlightedLines: [] });
+	});
+
+	test('Should not expand huge line ranges', () => {
+		const { highlightedLines } = parseFenceInfo('js {1-99999999}');
+		assert.deepStrictEqual(highlightedLines, [{ start: 1, end: 99999999 }]);
+		assert.strictEqual(highlightCode('a\nb', 'js', highlightedLines).split('highlighted-line').length, 3);
+	});
+
+	test('Should render escaped lines with highlighted lines marked', () => {
+		assert.strictEqual(
+			highlightCode('/* a\nb */ <x>\n', 'js', [{ start: 2, end: 2 }]),
+			'<span class="code-line"><span class="tok-comment">/* a</span>\n</span>' +
+			'<span class="code-line highlighted-line"><span class="tok-comment">b */</span> &lt;x&gt;</span>'
+		);
+	});
+});
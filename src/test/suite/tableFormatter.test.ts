@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { displayWidth, formatTable } from '../../tableFormatter';
+import { compactFormat, humanFormat } from '../../markdownFormatter';
+import { findSemanticDifferences } from '../../markdownEquivalence';
+
+const TABLE = [
+	'Name | Qty | Note',
+	':--- | ---: | :-:',
+	'苹果 | 3 | 🍎 fresh',
+	'pear | 12'
+];
+
+suite('Table Formatter Test Suite', () => {
+	test('Should measure CJK and emoji as two columns', () => {
+		assert.strictEqual(displayWidth('abc'), 3);
+		assert.strictEqual(displayWidth('苹果'), 4);
+		assert.strictEqual(displayWidth('🍎'), 2);
+		assert.strictEqual(displayWidth('👩‍💻'), 2);
+		assert.strictEqual(displayWidth('🇯🇵'), 2);
+		assert.strictEqual(displayWidth('é'), 1);
+	});
+
+	test('Should align columns and keep alignment markers', () => {
+		assert.deepStrictEqual(formatTable(TABLE, 'aligned'), [
+			'| Name | Qty |   Note   |',
+			'| :--- | --: | :------: |',
+			'| 苹果 |   3 | 🍎 fresh |',
+			'| pear |  12 |          |'
+		]);
+	});
+
+	test('Should strip padding and shorten the delimiter row', () => {
+		assert.deepStrictEqual(formatTable(TABLE, 'minimal'), [
+			'|Name|Qty|Note|',
+			'|:-|-:|:-:|',
+			'|苹果|3|🍎 fresh|',
+			'|pear|12||'
+		]);
+	});
+
+	test('Should keep escaped pipes inside cells', () => {
+		const lines = ['| a | b |', '|---|---|', '| x \\| y | `z` |'];
+		assert.deepStrictEqual(formatTable(lines, 'minimal'), ['|a|b|', '|-|-|', '|x \\| y|`z`|']);
+	});
+
+	test('Should leave tables unchanged in preserve style', () => {
+		assert.deepStrictEqual(formatTable(TABLE, 'preserve'), TABLE);
+	});
+
+	test('Should format tables as single blocks in both modes', () => {
+		const input = '# Title\n\n| a | b |\n|---|:-:|\n| 1 | 2 |\n| 3 | 4 |\n\nText\n';
+		assert.strictEqual(compactFormat(input), '# Title\n|a|b|\n|-|:-:|\n|1|2|\n|3|4|\n\nText\n');
+		assert.strictEqual(humanFormat(input), '# Title\n\n| a   |  b  |\n| --- | :-: |\n| 1   |  2  |\n| 3   |  4  |\n\nText\n');
+	});
+
+	test('Should not change the rendered table', () => {
+		const input = `${TABLE.join('\n')}\n| a \\| b | x | y | extra |\n`;
+		assert.deepStrictEqual(findSemanticDifferences(input, compactFormat(input)), []);
+		assert.deepStrictEqual(findSemanticDifferences(input, humanFormat(input)), []);
+	});
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { TextHunk, diffLines, mapLineThroughHunks } from '../../textDiff';
+import { compactFormat } from '../../markdownFormatter';
+
+function applyHunks(text: string, hunks: TextHunk[]): string {
+	let result = '';
+	let position = 0;
+	for (const hunk of hunks) {
+		result += text.substring(position, hunk.oldStart) + hunk.newText;
+		position = hunk.oldEnd;
+	}
+	return result + text.substring(position);
+}
+
+suite('Text Diff Test Suite', () => {
+	test('Should produce no hunks for identical text', () => {
+		assert.deepStrictEqual(diffLines('# Title\nText\n', '# Title\nText\n'), []);
+	});
+
+	test('Should only touch changed lines', () => {
+		const hunks = diffLines('# Title\n\n\nText\n\n- a\n\n- b\n', '# Title\nText\n- a\n- b\n');
+		assert.deepStrictEqual(hunks.map(hunk => [hunk.oldLine, hunk.oldLineCount, hunk.newLineCount]), [
+			[1, 2, 0],
+			[4, 1, 0],
+			[6, 1, 0]
+		]);
+	});
+
+	test('Should reproduce the formatted text', () => {
+		const input = '# Title\n\n\nText  \nmore\n\n- a\n\n- b\n\n\n## Next\n```\ncode\n```';
+		const output = compactFormat(input);
+		assert.strictEqual(applyHunks(input, diffLines(input, output)), output);
+	});
+
+	test('Should replace a heavily changed middle in one hunk', () => {
+		const input = ['# Title', ...Array.from({ length: 3000 }, (_, index) => `old ${index}`), 'end', ''].join('\n');
+		const output = ['# Title', ...Array.from({ length: 3000 }, (_, index) => `new ${index}`), 'end', ''].join('\n');
+		const hunks = diffLines(input, output);
+		assert.deepStrictEqual(hunks.map(hunk => [hunk.oldLine, hunk.oldLineCount, hunk.newLineCount]), [[1, 3000, 3000]]);
+		assert.strictEqual(applyHunks(input, hunks), output);
+	});
+
+	test('Should map lines past removed blank lines', () => {
+		const hunks = diffLines('a\n\n\nb\nc\n', 'a\nb\nc\n');
+		assert.strictEqual(mapLineThroughHunks(hunks, 0), 0);
+		assert.strictEqual(mapLineThroughHunks(hunks, 3), 1);
+		assert.strictEqual(mapLineThroughHunks(hunks, 4), 2);
+	});
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { trimToBudget } from '../../tokenBudget';
+import { compactFormat } from '../../markdownFormatter';
+import { countTokens } from '../../tokenCounter';
+
+const CODE = Array.from({ length: 40 }, (_, index) => `console.log('line ${index}');`);
+
+const DOCUMENT = [
+	'# Guide',
+	'Intro text.',
+	'',
+	'## Setup',
+	'Install the package and run the build before anything else.',
+	'',
+	'```js',
+	...CODE,
+	'```',
+	'',
+	'### Details',
+	'Some deeper details about the setup that nobody reads on a first pass through the guide.',
+	'',
+	'## History',
+	'<!-- angel:optional -->',
+	'Long ago the project was started by a few people who needed a tool for their own notes.',
+	''
+].join('\n');
+
+suite('Token Budget Test Suite', () => {
+	test('Should return the compact document when it fits', () => {
+		const result = trimToBudget(DOCUMENT, 10000);
+		assert.strictEqual(result.text, compactFormat(DOCUMENT));
+		assert.strictEqual(result.tokenCount, countTokens(result.text));
+		assert.ok(result.fits);
+		assert.deepStrictEqual(result.cuts, []);
+	});
+
+	test('Should remove optional sections first', () => {
+		const full = countTokens(compactFormat(DOCUMENT));
+		const result = trimToBudget(DOCUMENT, full - 1);
+		assert.ok(result.fits);
+		assert.deepStrictEqual(result.cuts.map(cut => [cut.priority, cut.heading]), [['optional', 'History']]);
+		assert.ok(!result.text.includes('History'));
+		assert.ok(result.text.includes('console.log'));
+	});
+
+	test('Should truncate long code blocks and keep their fences', () => {
+		const result = trimToBudget(DOCUMENT, 120);
+		assert.deepStrictEqual(result.cuts.map(cut => cut.priority), ['optional', 'codeBlocks']);
+		assert.strictEqual(result.cuts[1].heading, 'Setup');
+		assert.ok(result.text.includes('```js\n… 40 lines truncated …\n```'));
+		assert.ok(result.text.includes('### Details'));
+	});
+
+	test('Should keep truncated fences inside their list item', () => {
+		const listDocument = ['# A', '- ```', ...CODE.map(line => `  ${line}`), '  ```', '- next', ''].join('\n');
+		const result = trimToBudget(listDocument, 20, { priorities: ['codeBlocks'] });
+		assert.strictEqual(result.text, '# A\n- ```\n  … 40 lines truncated …\n  ```\n- next\n');
+	});
+
+	test('Should collapse the deepest sections next', () => {
+		const result = trimToBudget(DOCUMENT, 50);
+		assert.deepStrictEqual(result.cuts.map(cut => [cut.priority, cut.heading]).slice(2), [['depth', 'Details']]);
+		assert.ok(result.text.includes('### Details\n[… section trimmed …]'));
+		assert.ok(result.cuts.every(cut => cut.tokensSaved > 0));
+
+		const shallower = trimToBudget(DOCUMENT, 30);
+		assert.strictEqual(shallower.text, '# Guide\nIntro text.\n\n## Setup\n[… section trimmed …]\n');
+	});
+
+	test('Should follow the configured priorities', () => {
+		const result = trimToBudget(DOCUMENT, 120, { priorities: ['codeBlocks'], maxCodeBlockLines: 50 });
+		assert.deepStrictEqual(result.cuts, []);
+		assert.ok(!result.fits);
+		assert.strictEqual(result.text, compactFormat(DOCUMENT));
+	});
+});
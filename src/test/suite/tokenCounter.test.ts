@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { countTokens, countTokensByHeading, formatTokenCount } from '../../tokenCounter';
+import { compactFormat, humanFormat } from '../../markdownFormatter';
+
+suite('Token Counter Test Suite', () => {
+	test('Should count nothing for empty text', () => {
+		assert.strictEqual(countTokens(''), 0);
+	});
+
+	test('Should estimate one token per common word', () => {
+		assert.strictEqual(countTokens('Hello world, this is a test.'), 8);
+	});
+
+	test('Should count CJK characters individually', () => {
+		assert.ok(countTokens('日本語のテキスト') >= 8);
+	});
+
+	test('Should never count more tokens in compact mode', () => {
+		const input = '# Title\n\n\nText\n\n- a\n\n- b\n\n\n## Next\n\nMore\n';
+		assert.ok(countTokens(compactFormat(input)) <= countTokens(humanFormat(input)));
+	});
+
+	test('Should break tokens down per heading', () => {
+		const sections = countTokensByHeading('Intro\n# One\nText\n## Two\nMore text\n');
+		assert.deepStrictEqual(sections.map(section => [section.heading, section.level, section.line]), [
+			['', 0, 0],
+			['One', 1, 1],
+			['Two', 2, 3]
+		]);
+		assert.ok(sections.every(section => section.tokenCount > 0));
+	});
+
+	test('Should format large counts', () => {
+		assert.strictEqual(formatTokenCount(999), '999');
+		assert.strictEqual(formatTokenCount(1234), '1.2k');
+		assert.strictEqual(formatTokenCount(45678), '46k');
+	});
+});
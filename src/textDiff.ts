@@ -0,0 +1,183 @@
+/**
+ * Text Diff
+ * Line-level diff (Myers) used to turn a reformatted document into minimal edits
+ */
+
+export interface TextHunk {
+    /** Offset in the old text where the replaced lines start */
+    oldStart: number;
+    /** Offset in the old text after the last replaced line (including its line break) */
+    oldEnd: number;
+    /** First replaced line in the old text (0-based) */
+    oldLine: number;
+    oldLineCount: number;
+    /** First inserted line in the new text (0-based) */
+    newLine: number;
+    newLineCount: number;
+    /** Replacement lines, including their line breaks */
+    newText: string;
+}
+
+/**
+ * Returns the hunks that turn oldText into newText, replacing whole lines only.
+ * Identical texts produce no hunks.
+ */
+export function diffLines(oldText: string, newText: string): TextHunk[] {
+    if (oldText === newText) {
+        return [];
+    }
+
+    const oldLines = splitLinesKeepingBreaks(oldText);
+    const newLines = splitLinesKeepingBreaks(newText);
+    const oldOffsets = lineOffsets(oldLines);
+    const hunks: TextHunk[] = [];
+
+    let oldLine = 0;
+    let newLine = 0;
+    const pairs = [...commonLinePairs(oldLines, newLines), [oldLines.length, newLines.length]];
+
+    for (const [oldMatch, newMatch] of pairs) {
+        if (oldMatch > oldLine || newMatch > newLine) {
+            hunks.push({
+                oldStart: oldOffsets[oldLine],
+                oldEnd: oldOffsets[oldMatch],
+                oldLine,
+                oldLineCount: oldMatch - oldLine,
+                newLine,
+                newLineCount: newMatch - newLine,
+                newText: newLines.slice(newLine, newMatch).join('')
+            });
+        }
+        oldLine = oldMatch + 1;
+        newLine = newMatch + 1;
+    }
+
+    return hunks;
+}
+
+/**
+ * Maps a line of the old text to the line holding the same content in the new text.
+ * Lines inside a replaced hunk map to the closest line of its replacement.
+ */
+export function mapLineThroughHunks(hunks: TextHunk[], line: number): number {
+    let delta = 0;
+
+    for (const hunk of hunks) {
+        if (line < hunk.oldLine) {
+            break;
+        }
+        if (line < hunk.oldLine + hunk.oldLineCount) {
+            return hunk.newLine + Math.min(line - hunk.oldLine, Math.max(0, hunk.newLineCount - 1));
+        }
+        delta += hunk.newLineCount - hunk.oldLineCount;
+    }
+
+    return Math.max(0, line + delta);
+}
+
+function splitLinesKeepingBreaks(text: string): string[] {
+    return text.match(/[^\r\n]*(\r\n|\r|\n)|[^\r\n]+$/g) ?? [];
+}
+
+function lineOffsets(lines: string[]): number[] {
+    const offsets = [0];
+    for (const line of lines) {
+        offsets.push(offsets[offsets.length - 1] + line.length);
+    }
+    return offsets;
+}
+
+/**
+ * Edit distance past which the changed middle of a diff becomes a single replace hunk,
+ * bounding the memory of the backtracking trace
+ */
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * Unchanged lines as [oldIndex, newIndex] pairs: the common prefix and suffix,
+ * and Myers' shortest edit script for the lines between them
+ */
+function commonLinePairs(a: string[], b: string[]): [number, number][] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const pairs: [number, number][] = [];
+    for (let line = 0; line < prefix; line++) {
+        pairs.push([line, line]);
+    }
+    for (const [x, y] of shortestEditPairs(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix))) {
+        pairs.push([x + prefix, y + prefix]);
+    }
+    for (let line = suffix; line > 0; line--) {
+        pairs.push([a.length - line, b.length - line]);
+    }
+    return pairs;
+}
+
+/**
+ * Myers' O(ND) shortest edit script, returned as the [oldIndex, newIndex] pairs of unchanged lines.
+ * Returns no pairs when the edit distance exceeds MAX_EDIT_DISTANCE.
+ */
+function shortestEditPairs(a: string[], b: string[]): [number, number][] {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // Snapshot of v[-d-1 .. d+1] taken before each round d, for backtracking
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                return backtrack(trace, a.length, b.length);
+            }
+        }
+    }
+
+    return [];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): [number, number][] {
+    const pairs: [number, number][] = [];
+    let x = n;
+    let y = m;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const snapshot = trace[d];
+        const at = (k: number) => snapshot[k + d + 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : at(prevK);
+        const prevY = d === 0 ? 0 : prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+            pairs.push([x, y]);
+        }
+
+        x = prevX;
+        y = prevY;
+    }
+
+    return pairs.reverse();
+}
@@ -0,0 +1,190 @@
+/**
+ * Token Budget
+ * Trims the compact form of a document until it fits a token budget, cutting the least important content first
+ */
+
+import { FormatOptions, compactFormat } from './markdownFormatter';
+import { MarkdownBlock, parseMarkdownBlocks, splitLines } from './markdownBlocks';
+import { countTokens, countTokensByHeading } from './tokenCounter';
+
+/**
+ * What to cut, in the order the priorities are listed:
+ * - optional: sections marked with `<!-- angel:optional -->`, removed with their heading
+ * - codeBlocks: code blocks longer than `maxCodeBlockLines`, reduced to a truncation marker
+ * - depth: sections collapsed to their heading, deepest and last first
+ */
+export type TrimPriority = 'optional' | 'codeBlocks' | 'depth';
+
+export interface TrimOptions {
+    priorities?: TrimPriority[];
+    maxCodeBlockLines?: number;
+    format?: FormatOptions;
+}
+
+export interface TrimCut {
+    priority: TrimPriority;
+    /** Heading of the cut section, or of the section a code block is in */
+    heading: string;
+    /** Line of the cut in the compact text before trimming (0-based) */
+    line: number;
+    tokensSaved: number;
+}
+
+export interface TrimResult {
+    text: string;
+    tokenCount: number;
+    /** Whether the text fits the budget; false if everything that can be cut was */
+    fits: boolean;
+    cuts: TrimCut[];
+}
+
+interface Cut {
+    priority: TrimPriority;
+    heading: string;
+    start: number;
+    end: number;
+    replacement: string[];
+}
+
+export const DEFAULT_TRIM_PRIORITIES: TrimPriority[] = ['optional', 'codeBlocks', 'depth'];
+export const OPTIONAL_SECTION_MARKER = '<!-- angel:optional -->';
+const DEFAULT_MAX_CODE_BLOCK_LINES = 30;
+const LEADING_LIST_MARKER_REGEX = /^([ \t>]*)([-*+]|\d{1,9}[.)])(?=[ \t])/;
+
+/**
+ * Converts the document to compact mode and applies cuts in priority order
+ * until its token count fits the budget. Each cut is chosen by the tokens of
+ * the lines it removes; the document is laid out again only once the estimate
+ * fits, and cutting resumes if the laid out text still does not.
+ */
+export function trimToBudget(markdown: string, budget: number, options: TrimOptions = {}): TrimResult {
+    const compact = compactFormat(markdown, options.format);
+    const lines = splitLines(compact);
+    const eol = compact.includes('\r\n') ? '\r\n' : '\n';
+    const maxCodeBlockLines = options.maxCodeBlockLines ?? DEFAULT_MAX_CODE_BLOCK_LINES;
+    const candidates = (options.priorities ?? DEFAULT_TRIM_PRIORITIES)
+        .flatMap(priority => findCuts(compact, lines, priority, maxCodeBlockLines));
+
+    let text = compact;
+    let tokenCount = countTokens(compact);
+    const applied: Cut[] = [];
+    const cuts: TrimCut[] = [];
+    let next = 0;
+
+    while (tokenCount > budget && next < candidates.length) {
+        let estimate = tokenCount;
+        for (; next < candidates.length && estimate > budget; next++) {
+            const cut = candidates[next];
+            if (applied.some(other => other.start <= cut.start && cut.end <= other.end)) {
+                continue;
+            }
+
+            // Cuts already made inside this one have saved part of its tokens
+            const inner = applied
+                .filter(other => cut.start <= other.start && other.end <= cut.end)
+                .map(other => ({ ...other, start: other.start - cut.start, end: other.end - cut.start }));
+            const removed = countTokens(applyCuts(lines.slice(cut.start, cut.end), inner).join(eol));
+            const tokensSaved = removed - countTokens(cut.replacement.join(eol));
+            // A marker can cost more than a short body it replaces
+            if (tokensSaved <= 0) {
+                continue;
+            }
+
+            applied.push(cut);
+            cuts.push({ priority: cut.priority, heading: cut.heading, line: cut.start, tokensSaved });
+            estimate -= tokensSaved;
+        }
+
+        // Cuts leave blank lines behind, so the result is laid out again
+        text = compactFormat(applyCuts(lines, applied).join(eol), options.format);
+        tokenCount = countTokens(text);
+    }
+
+    return { text, tokenCount, fits: tokenCount <= budget, cuts };
+}
+
+function findCuts(markdown: string, lines: string[], priority: TrimPriority, maxCodeBlockLines: number): Cut[] {
+    const sections = countTokensByHeading(markdown).map((section, index, all) => {
+        // A section runs until the next heading of the same or a higher level
+        const next = all.slice(index + 1).find(other => other.level <= section.level);
+        const firstChild = all[index + 1]?.line ?? lines.length;
+        return { ...section, end: next?.line ?? lines.length, bodyEnd: Math.min(firstChild, next?.line ?? lines.length) };
+    }).filter(section => section.level > 0);
+
+    const headingAt = (line: number) => [...sections].reverse().find(section => section.line <= line)?.heading ?? '';
+
+    switch (priority) {
+        case 'optional':
+            return sections
+                .filter(section => lines.slice(section.line + 1, section.bodyEnd).some(line => line.trim() === OPTIONAL_SECTION_MARKER))
+                .reverse()
+                .map(section => ({ priority, heading: section.heading, start: section.line, end: section.end, replacement: [] }));
+
+        case 'codeBlocks':
+            return collectCodeBlocks(parseMarkdownBlocks(markdown))
+                .map(block => truncateCodeBlock(block, lines, maxCodeBlockLines))
+                .filter((cut): cut is Omit<Cut, 'priority' | 'heading'> => cut !== null)
+                .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+                .map(cut => ({ ...cut, priority, heading: headingAt(cut.start) }));
+
+        case 'depth':
+            return sections
+                .filter(section => section.end > section.line + 1)
+                .sort((a, b) => b.level - a.level || b.line - a.line)
+                .map(section => ({
+                    priority,
+                    heading: section.heading,
+                    start: section.line + 1,
+                    end: section.end,
+                    replacement: ['[… section trimmed …]']
+                }));
+    }
+}
+
+function collectCodeBlocks(blocks: MarkdownBlock[]): MarkdownBlock[] {
+    return blocks.flatMap(block => block.kind === 'fence' || block.kind === 'code' ? [block] : collectCodeBlocks(block.children));
+}
+
+/**
+ * Replaces the content of a long code block with a marker, keeping its fences
+ * and indentation so the rest of the document parses the same
+ */
+function truncateCodeBlock(block: MarkdownBlock, lines: string[], maxLines: number): Omit<Cut, 'priority' | 'heading'> | null {
+    const end = block.token?.map?.[1] ?? block.endLine;
+    const isFence = block.kind === 'fence';
+    const contentStart = isFence ? block.startLine + 1 : block.startLine;
+    const closing = lines[end - 1]?.trim() ?? '';
+    const contentEnd = isFence && closing.startsWith(block.token?.markup ?? '```') && end - 1 > block.startLine ? end - 1 : end;
+    const count = contentEnd - contentStart;
+
+    if (count <= maxLines) {
+        return null;
+    }
+
+    // The marker goes in the block's content column: list markers before a fence
+    // count as indentation, and the first line of indented code carries its own
+    let opening = lines[block.startLine];
+    for (let previous = ''; previous !== opening;) {
+        previous = opening;
+        opening = opening.replace(LEADING_LIST_MARKER_REGEX, (_match, prefix: string, marker: string) => prefix + ' '.repeat(marker.length));
+    }
+    const indent = /^[ \t>]*/.exec(opening)![0];
+    return { start: contentStart, end: contentEnd, replacement: [`${indent}… ${count} lines truncated …`] };
+}
+
+function applyCuts(lines: string[], cuts: Cut[]): string[] {
+    const ordered = [...cuts].sort((a, b) => a.start - b.start || b.end - a.end);
+    const output: string[] = [];
+    let line = 0;
+
+    for (const cut of ordered) {
+        if (cut.start < line) {
+            continue;
+        }
+        output.push(...lines.slice(line, cut.start), ...cut.replacement);
+        line = cut.end;
+    }
+    output.push(...lines.slice(line));
+
+    return output;
+}
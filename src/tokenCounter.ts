@@ -0,0 +1,110 @@
+/**
+ * Token Counter
+ * Offline estimate of LLM token counts, modelled on the cl100k_base BPE tokenizer
+ */
+
+import { parseTokens, splitLines } from './markdownBlocks';
+
+export interface SectionTokens {
+    /** Heading text, or an empty string for content before the first heading */
+    heading: string;
+    /** Heading level (1-6), or 0 for content before the first heading */
+    level: number;
+    /** Source line (0-based) where the section starts */
+    line: number;
+    tokenCount: number;
+}
+
+// cl100k_base pre-tokenization: contractions, words with one leading non-letter,
+// numbers of up to three digits, punctuation runs and whitespace
+const PRE_TOKENIZE_REGEX = /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+// Average characters per token for merged BPE pieces
+const CHARS_PER_LATIN_TOKEN = 6;
+const CHARS_PER_PUNCTUATION_TOKEN = 3;
+const CJK_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const ASCII_REGEX = /^[\x00-\x7f]*$/;
+
+/**
+ * Estimates the number of tokens an LLM would see for the given text.
+ * Text is split exactly like cl100k_base does before BPE merging; each piece
+ * is then costed from its length and script instead of the full merge table.
+ */
+export function countTokens(text: string): number {
+    if (!text) {
+        return 0;
+    }
+
+    let count = 0;
+    for (const match of text.matchAll(PRE_TOKENIZE_REGEX)) {
+        count += estimatePieceTokens(match[0]);
+    }
+    return count;
+}
+
+/**
+ * Estimates tokens per heading section; each section runs from its heading to the next heading of any level
+ */
+export function countTokensByHeading(markdown: string): SectionTokens[] {
+    const lines = splitLines(markdown);
+    const tokens = parseTokens(markdown);
+    const sections: Omit<SectionTokens, 'tokenCount'>[] = [];
+
+    tokens.forEach((token, index) => {
+        if (token.type === 'heading_open' && token.level === 0 && token.map) {
+            sections.push({
+                heading: tokens[index + 1]?.content ?? '',
+                level: Number(token.tag.substring(1)),
+                line: token.map[0]
+            });
+        }
+    });
+
+    if (sections.length === 0 || sections[0].line > 0) {
+        sections.unshift({ heading: '', level: 0, line: 0 });
+    }
+
+    return sections
+        .map((section, index) => {
+            const end = index + 1 < sections.length ? sections[index + 1].line : lines.length;
+            return { ...section, tokenCount: countTokens(lines.slice(section.line, end).join('\n')) };
+        })
+        .filter(section => section.level > 0 || section.tokenCount > 0);
+}
+
+/**
+ * Formats a token count for compact display, e.g. 1234 → "1.2k"
+ */
+export function formatTokenCount(count: number): string {
+    if (count < 1000) {
+        return String(count);
+    }
+    return `${(count / 1000).toFixed(count < 10000 ? 1 : 0)}k`;
+}
+
+function estimatePieceTokens(piece: string): number {
+    if (piece.trim() === '') {
+        // Runs of spaces and newlines merge into a single token
+        return 1;
+    }
+
+    if (/^\p{N}+$/u.test(piece)) {
+        return 1;
+    }
+
+    const body = piece.trim();
+    if (!ASCII_REGEX.test(body)) {
+        let count = 0;
+        for (const char of body) {
+            // CJK characters and emoji take one or more tokens each; other scripts merge in pairs
+            count += CJK_REGEX.test(char) || /\p{Extended_Pictographic}/u.test(char) ? 1 : 0.5;
+        }
+        return Math.max(1, Math.ceil(count));
+    }
+
+    if (/\p{L}/u.test(body)) {
+        return Math.max(1, Math.ceil(body.length / CHARS_PER_LATIN_TOKEN));
+    }
+
+    return Math.max(1, Math.ceil(body.length / CHARS_PER_PUNCTUATION_TOKEN));
+}
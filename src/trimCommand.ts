@@ -0,0 +1,107 @@
+/**
+ * Trim Command
+ * Command that copies a compact version of the active document trimmed to a token budget, and reports what was cut
+ */
+
+import * as vscode from 'vscode';
+import { TrimCut, TrimOptions, TrimPriority, trimToBudget } from './tokenBudget';
+import { ModeManager } from './modeManager';
+import { formatTokenCount } from './tokenCounter';
+
+interface TrimSettings {
+    budget?: number;
+    priorities?: TrimPriority[];
+    maxCodeBlockLines?: number;
+}
+
+const CUT_DESCRIPTIONS = new Map<TrimPriority, string>([
+    ['optional', 'optional section removed'],
+    ['codeBlocks', 'code block truncated'],
+    ['depth', 'section collapsed']
+]);
+
+async function copyTrimmed(context: vscode.ExtensionContext, modeManager: ModeManager): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showWarningMessage('Please open a markdown file first');
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('markdown-angel');
+    const settings = config.get<TrimSettings>('trim', {});
+    const input = await vscode.window.showInputBox({
+        prompt: 'Token budget for the compact document',
+        value: String(context.globalState.get<number>('trimBudget') ?? settings.budget ?? 4000),
+        validateInput: value => /^[1-9]\d*$/.test(value.trim()) ? undefined : 'Enter a positive whole number of tokens'
+    });
+    if (!input) {
+        return;
+    }
+
+    const budget = Number(input.trim());
+    await context.globalState.update('trimBudget', budget);
+
+    const options: TrimOptions = {
+        priorities: settings.priorities,
+        maxCodeBlockLines: settings.maxCodeBlockLines,
+        format: modeManager.getFormatOptions()
+    };
+    const text = editor.document.getText();
+    // Trimming runs in one pass on the extension host, so it cannot be cancelled part-way
+    const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Trimming to ${formatTokenCount(budget)} tokens...`,
+        cancellable: false
+    }, async () => {
+        // Let the notification show before the work starts
+        await new Promise(resolve => setTimeout(resolve, 0));
+        return trimToBudget(text, budget, options);
+    });
+
+    // The trimmed text goes wherever Copy for AI sends its output
+    const toEditor = config.get<{ destination?: string }>('aiExport', {}).destination === 'editor';
+    if (toEditor) {
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: result.text });
+        await vscode.window.showTextDocument(document, { preview: false });
+    } else {
+        await vscode.env.clipboard.writeText(result.text);
+    }
+
+    const summary = `~${formatTokenCount(result.tokenCount)} tokens (budget ${formatTokenCount(budget)})`;
+    if (result.cuts.length === 0) {
+        vscode.window.showInformationMessage(`${toEditor ? 'Exported' : 'Copied'} without cuts: ${summary}`);
+        return;
+    }
+
+    const message = result.fits
+        ? `${toEditor ? 'Exported' : 'Copied'} with ${result.cuts.length} cut${result.cuts.length === 1 ? '' : 's'}: ${summary}`
+        : `Could only trim to ${summary}; nothing else can be cut`;
+    const show = result.fits
+        ? vscode.window.showInformationMessage(message, 'Show Cuts')
+        : vscode.window.showWarningMessage(message, 'Show Cuts');
+    if (await show === 'Show Cuts') {
+        await showCuts(result.cuts);
+    }
+}
+
+async function showCuts(cuts: TrimCut[]): Promise<void> {
+    await vscode.window.showQuickPick(
+        cuts.map(cut => ({
+            label: cut.heading || '(before the first heading)',
+            description: CUT_DESCRIPTIONS.get(cut.priority),
+            detail: `−${formatTokenCount(cut.tokensSaved)} tokens`
+        })),
+        { placeHolder: 'Cuts made to fit the token budget', canPickMany: false }
+    );
+}
+
+export function registerTrimCommand(context: vscode.ExtensionContext, modeManager: ModeManager): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdown-angel.trimToBudget', () => {
+            copyTrimmed(context, modeManager).catch(error => {
+                console.error('Error trimming to token budget:', error);
+                vscode.window.showErrorMessage(`Error trimming to token budget: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            });
+        })
+    );
+}